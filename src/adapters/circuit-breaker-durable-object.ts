@@ -0,0 +1,69 @@
+import type { CircuitBreakerState } from '@/types'
+import type { DurableObjectState } from '@cloudflare/workers-types'
+
+const RECORD_KEY = 'state'
+
+/**
+ * Shape of the record a CircuitBreakerDurableObject keeps in its storage.
+ */
+interface StoredRecord {
+  value: CircuitBreakerState
+  version: number
+}
+
+/**
+ * Body of a PUT request to the Durable Object.
+ */
+export interface DurableObjectPutRequest {
+  value: CircuitBreakerState
+  /** Version the stored record must have, or null if no record may exist */
+  expectedVersion?: string | null
+}
+
+/**
+ * Durable Object holding the state of one circuit breaker.
+ * Every read-modify-write runs in a storage transaction, so writes for a breaker key are
+ * serialised and version checks are strict. Export it from your Worker and bind it for
+ * CloudflareDurableObjectStorage.
+ *
+ * Routes: `GET` returns `{ value, version }` (404 if empty), `PUT` with
+ * `{ value, expectedVersion? }` returns `{ version }` (409 on conflict, or if a record exists
+ * when `expectedVersion` is null), `DELETE` returns 204.
+ */
+export class CircuitBreakerDurableObject {
+  constructor(private readonly ctx: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    switch (request.method) {
+      case 'GET':
+        return this.get()
+      case 'PUT':
+        return this.put((await request.json()) as DurableObjectPutRequest)
+      case 'DELETE':
+        await this.ctx.storage.delete(RECORD_KEY)
+        return new Response(null, { status: 204 })
+      default:
+        return new Response('Method Not Allowed', { status: 405 })
+    }
+  }
+
+  private async get(): Promise<Response> {
+    const record = await this.ctx.storage.get<StoredRecord>(RECORD_KEY)
+    if (!record) return new Response(null, { status: 404 })
+    return Response.json({ value: record.value, version: String(record.version) })
+  }
+
+  private async put({ value, expectedVersion }: DurableObjectPutRequest): Promise<Response> {
+    return this.ctx.storage.transaction(async txn => {
+      const current = await txn.get<StoredRecord>(RECORD_KEY)
+      const conflict =
+        expectedVersion === null
+          ? current !== undefined
+          : expectedVersion !== undefined && current && String(current.version) !== expectedVersion
+      if (conflict) return new Response('Version conflict', { status: 409 })
+      const version = (current?.version ?? 0) + 1
+      await txn.put<StoredRecord>(RECORD_KEY, { value, version })
+      return Response.json({ version: String(version) })
+    })
+  }
+}
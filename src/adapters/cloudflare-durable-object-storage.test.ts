@@ -0,0 +1,121 @@
+import { CircuitBreakerDurableObject } from '@/adapters/circuit-breaker-durable-object'
+import { CloudflareDurableObjectStorage } from '@/adapters/cloudflare-durable-object-storage'
+import { Errors } from '@/errors'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type { CircuitBreakerState } from '@/types'
+import type { DurableObjectNamespace, DurableObjectState } from '@cloudflare/workers-types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+/**
+ * In-process stand-in for Durable Object storage: async operations interleave,
+ * while transactions run one at a time like they do in the runtime.
+ */
+class MemoryDurableObjectStorage {
+  private readonly data = new Map<string, unknown>()
+  private queue: Promise<unknown> = Promise.resolve()
+
+  async get<T>(key: string): Promise<T | undefined> {
+    await Promise.resolve()
+    return structuredClone(this.data.get(key)) as T | undefined
+  }
+  async put<T>(key: string, value: T): Promise<void> {
+    await Promise.resolve()
+    this.data.set(key, structuredClone(value))
+  }
+  async delete(key: string): Promise<boolean> {
+    return this.data.delete(key)
+  }
+  transaction<T>(closure: (txn: this) => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => closure(this))
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+}
+
+class MemoryDurableObjectNamespace {
+  readonly objects = new Map<string, CircuitBreakerDurableObject>()
+
+  idFromName(name: string): string {
+    return name
+  }
+  get(id: string) {
+    let object = this.objects.get(id)
+    if (!object) {
+      const state = { storage: new MemoryDurableObjectStorage() }
+      object = new CircuitBreakerDurableObject(state as unknown as DurableObjectState)
+      this.objects.set(id, object)
+    }
+    const target = object
+    return {
+      fetch: (input: string, init?: RequestInit) => target.fetch(new Request(input, init)),
+    }
+  }
+}
+
+describe('CloudflareDurableObjectStorage', () => {
+  const state: CircuitBreakerState = { status: 'OPEN', failureCount: 0, successCount: 0 }
+  let namespace: MemoryDurableObjectNamespace
+  let storage: CloudflareDurableObjectStorage
+
+  beforeEach(() => {
+    namespace = new MemoryDurableObjectNamespace()
+    storage = new CloudflareDurableObjectStorage(namespace as unknown as DurableObjectNamespace)
+  })
+
+  it('should return undefined for unknown keys', async () => {
+    expect(await storage.get('missing')).toBeUndefined()
+  })
+
+  it('should round-trip state with an incrementing version', async () => {
+    expect(await storage.put('cb', state)).toBe('1')
+    expect(await storage.put('cb', state, '1')).toBe('2')
+    expect(await storage.get('cb')).toEqual({ value: state, version: '2' })
+  })
+
+  it('should reject writes with a stale expected version', async () => {
+    await storage.put('cb', state)
+    await storage.put('cb', state, '1')
+    await expect(storage.put('cb', state, '1')).rejects.toThrow(Errors.ConcurrencyConflictError)
+  })
+
+  it('should reject writes expecting no record when one exists', async () => {
+    expect(await storage.put('cb', state, null)).toBe('1')
+    await expect(storage.put('cb', state, null)).rejects.toThrow(Errors.ConcurrencyConflictError)
+  })
+
+  it('should serialise concurrent writes for the same key', async () => {
+    await storage.put('cb', state)
+    const results = await Promise.allSettled([
+      storage.put('cb', { ...state, failureCount: 1 }, '1'),
+      storage.put('cb', { ...state, failureCount: 2 }, '1'),
+    ])
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected'])
+    expect(await storage.get('cb')).toEqual({ value: { ...state, failureCount: 1 }, version: '2' })
+  })
+
+  it('should keep one Durable Object per breaker key', async () => {
+    await storage.put('a', state)
+    await storage.put('b', state)
+    expect([...namespace.objects.keys()]).toEqual(['a', 'b'])
+    expect((await storage.get('b'))?.version).toBe('1')
+  })
+
+  it('should delete stored state', async () => {
+    await storage.put('cb', state)
+    await storage.delete('cb')
+    expect(await storage.get('cb')).toBeUndefined()
+  })
+
+  it('should surface conflicts to RemoteCircuitBreaker', async () => {
+    const options = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 }
+    const first = new RemoteCircuitBreaker(options, storage, 'cb')
+    const second = new RemoteCircuitBreaker(options, storage, 'cb')
+    await first.save()
+    await second.load()
+    await first.load()
+    second.recordFailure()
+    await second.save()
+    first.recordFailure()
+    await expect(first.save()).rejects.toThrow(Errors.ConcurrencyConflictError)
+  })
+})
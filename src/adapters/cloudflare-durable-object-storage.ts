@@ -0,0 +1,56 @@
+import type { DurableObjectPutRequest } from '@/adapters/circuit-breaker-durable-object'
+import { Errors } from '@/errors'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerState,
+  VersionedStorageValue,
+} from '@/types'
+import type { DurableObjectNamespace, DurableObjectStub } from '@cloudflare/workers-types'
+
+const STATE_URL = 'https://circuit-breaker/state'
+
+/**
+ * Strongly consistent storage backed by CircuitBreakerDurableObject, one instance per key.
+ * Unlike CloudflareKVStorage, version checks are enforced atomically by the Durable Object.
+ */
+export class CloudflareDurableObjectStorage implements AsyncCircuitBreakerStorage {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async put(
+    key: string,
+    value: CircuitBreakerState,
+    expectedVersion?: string | null,
+  ): Promise<string> {
+    const body: DurableObjectPutRequest = { value, expectedVersion }
+    const response = await this.stub(key).fetch(STATE_URL, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    })
+    if (response.status === 409) throw new Errors.ConcurrencyConflictError(key)
+    if (!response.ok) {
+      throw new Errors.StorageOperationError(`Durable Object put failed with ${response.status}`)
+    }
+    const { version } = await response.json<{ version: string }>()
+    return version
+  }
+
+  async get(key: string): Promise<VersionedStorageValue | undefined> {
+    const response = await this.stub(key).fetch(STATE_URL, { method: 'GET' })
+    if (response.status === 404) return undefined
+    if (!response.ok) {
+      throw new Errors.StorageOperationError(`Durable Object get failed with ${response.status}`)
+    }
+    return response.json<VersionedStorageValue>()
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.stub(key).fetch(STATE_URL, { method: 'DELETE' })
+    if (!response.ok) {
+      throw new Errors.StorageOperationError(`Durable Object delete failed with ${response.status}`)
+    }
+  }
+
+  private stub(key: string): DurableObjectStub {
+    return this.namespace.get(this.namespace.idFromName(key))
+  }
+}
@@ -0,0 +1,68 @@
+import { CloudflareKVStorage } from '@/adapters/cloudflare-kv-storage'
+import { ManualClock } from '@/clock'
+import { Errors } from '@/errors'
+import type { CircuitBreakerState } from '@/types'
+import type { KVNamespace } from '@cloudflare/workers-types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+class MockKV {
+  readonly store = new Map<string, string>()
+  async get(key: string): Promise<unknown> {
+    const raw = this.store.get(key)
+    return raw === undefined ? null : JSON.parse(raw)
+  }
+  async put(key: string, value: string): Promise<void> {
+    this.store.set(key, value)
+  }
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+}
+
+describe('CloudflareKVStorage', () => {
+  const state: CircuitBreakerState = { status: 'OPEN', failureCount: 0, successCount: 0 }
+  let kv: MockKV
+  let storage: CloudflareKVStorage
+
+  beforeEach(() => {
+    kv = new MockKV()
+    storage = new CloudflareKVStorage(kv as unknown as KVNamespace)
+  })
+
+  it('should round-trip state with its version', async () => {
+    const version = await storage.put('cb', state)
+    expect(await storage.get('cb')).toEqual({ value: state, version })
+  })
+
+  it('should read records stored in the flattened format', async () => {
+    kv.store.set('cb', JSON.stringify({ ...state, version: 'v1' }))
+    expect(await storage.get('cb')).toEqual({ value: state, version: 'v1' })
+  })
+
+  it('should reject writes with a stale expected version', async () => {
+    kv.store.set('cb', JSON.stringify({ value: state, version: 'v2' }))
+    await expect(storage.put('cb', state, 'v1')).rejects.toThrow(Errors.ConcurrencyConflictError)
+    await expect(storage.put('cb', state, 'v2')).resolves.toBeTypeOf('string')
+  })
+
+  it('should reject writes expecting no record when one exists', async () => {
+    await expect(storage.put('cb', state, null)).resolves.toBeTypeOf('string')
+    await expect(storage.put('cb', state, null)).rejects.toThrow(Errors.ConcurrencyConflictError)
+  })
+
+  it('should stamp versions with the injected clock', async () => {
+    const clocked = new CloudflareKVStorage(kv as unknown as KVNamespace, new ManualClock(0))
+    const first = await clocked.put('cb', state)
+    const second = await clocked.put('cb', state)
+    expect(first).toMatch(/^1970-01-01T00:00:00\.000Z-/)
+    expect(second).not.toBe(first)
+  })
+
+  it('should accept conditional writes to records stored without a version', async () => {
+    kv.store.set('cb', JSON.stringify({ value: state }))
+    const { version } = (await storage.get('cb'))!
+    expect((await storage.get('cb'))?.version).toBe(version)
+    const next = await storage.put('cb', { ...state, failureCount: 1 }, version)
+    await expect(storage.put('cb', state, next)).resolves.toBeTypeOf('string')
+  })
+})
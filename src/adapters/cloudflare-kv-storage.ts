@@ -1,3 +1,6 @@
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+import { Errors } from '@/errors'
 import type {
   AsyncCircuitBreakerStorage,
   CircuitBreakerState,
@@ -5,30 +8,58 @@ import type {
 } from '@/types'
 import { KVNamespace } from '@cloudflare/workers-types'
 
+/**
+ * Older records stored the state fields next to the version instead of under `value`.
+ */
+type StoredRecord = VersionedStorageValue | (CircuitBreakerState & { version?: string })
+
+/**
+ * Version reported for records stored without one, stable so conditional writes can match it.
+ */
+const UNVERSIONED = 'unversioned'
+
 export class CloudflareKVStorage implements AsyncCircuitBreakerStorage {
-  constructor(private kv: KVNamespace) {}
+  /**
+   * @param kv The KV namespace binding
+   * @param clock Clock used to timestamp versions, defaults to systemClock
+   */
+  constructor(
+    private kv: KVNamespace,
+    private clock: Clock = systemClock,
+  ) {}
 
-  async put(key: string, value: CircuitBreakerState): Promise<string> {
-    const newVersion = new Date().toISOString()
-    await this.kv.put(
-      key,
-      JSON.stringify({
-        ...value,
-        version: newVersion,
-      }),
-    )
+  /**
+   * KV has no conditional writes, so the version check, like the absence check for a null
+   * `expectedVersion`, is a best-effort read-before-write.
+   */
+  async put(
+    key: string,
+    value: CircuitBreakerState,
+    expectedVersion?: string | null,
+  ): Promise<string> {
+    if (expectedVersion !== undefined) {
+      const current = await this.get(key)
+      if (current && current.version !== expectedVersion) {
+        throw new Errors.ConcurrencyConflictError(key)
+      }
+    }
+    // The random suffix keeps writes landing in the same millisecond apart
+    const newVersion = `${new Date(this.clock.now()).toISOString()}-${crypto.randomUUID()}`
+    await this.kv.put(key, JSON.stringify({ value, version: newVersion }))
     return newVersion
   }
 
   async get(key: string): Promise<VersionedStorageValue | undefined> {
-    const value = await this.kv.get<VersionedStorageValue>(key, 'json')
-    if (value === null || typeof value !== 'object' || value === null) {
+    const record = await this.kv.get<StoredRecord>(key, 'json')
+    if (record === null || typeof record !== 'object') {
       return undefined
     }
-    return {
-      ...value,
-      version: typeof value.version === 'string' ? value.version : new Date().toISOString(),
+    const version = typeof record.version === 'string' ? record.version : UNVERSIONED
+    if ('value' in record) {
+      return { value: record.value, version }
     }
+    const { version: _version, ...value } = record
+    return { value, version }
   }
 
   async delete(key: string): Promise<void> {
@@ -1 +1,6 @@
+export * from './circuit-breaker-durable-object'
+export * from './cloudflare-durable-object-storage'
 export * from './cloudflare-kv-storage'
+export * from './sql-executor'
+export * from './sql-schema'
+export * from './sql-storage'
@@ -0,0 +1,66 @@
+import type { D1Database } from '@cloudflare/workers-types'
+
+/**
+ * Value types bound to `?` placeholders.
+ */
+export type SqlValue = string | number | null
+
+/**
+ * Minimal SQL port used by SqlCircuitBreakerStorage.
+ * Statements use `?` positional placeholders.
+ */
+export interface SqlExecutor {
+  /** Runs a statement and returns the number of rows it changed */
+  run(sql: string, params?: readonly SqlValue[]): Promise<{ changes: number }>
+  /** Runs a query and returns its first row, if any */
+  first<T>(sql: string, params?: readonly SqlValue[]): Promise<T | undefined>
+}
+
+/**
+ * Synchronous SQLite driver shape shared by `node:sqlite` and `better-sqlite3`.
+ */
+export interface SyncSqliteDatabase {
+  prepare(sql: string): {
+    run(...params: SqlValue[]): { changes: number | bigint }
+    get(...params: SqlValue[]): unknown
+  }
+}
+
+/**
+ * Creates a SqlExecutor over a Cloudflare D1 database.
+ * @param db The bound D1Database
+ */
+export function d1Executor(db: D1Database): SqlExecutor {
+  return {
+    async run(sql, params = []) {
+      const result = await db
+        .prepare(sql)
+        .bind(...params)
+        .run()
+      return { changes: result.meta.changes }
+    },
+    async first<T>(sql: string, params: readonly SqlValue[] = []) {
+      const row = await db
+        .prepare(sql)
+        .bind(...params)
+        .first<T>()
+      return row ?? undefined
+    },
+  }
+}
+
+/**
+ * Creates a SqlExecutor over a synchronous SQLite driver such as `node:sqlite`.
+ * @param db The open database
+ */
+export function sqliteExecutor(db: SyncSqliteDatabase): SqlExecutor {
+  return {
+    async run(sql, params = []) {
+      const result = db.prepare(sql).run(...params)
+      return { changes: Number(result.changes) }
+    },
+    async first<T>(sql: string, params: readonly SqlValue[] = []) {
+      return (db.prepare(sql).get(...params) ?? undefined) as T | undefined
+    },
+  }
+}
@@ -0,0 +1,65 @@
+import type { SqlExecutor } from '@/adapters/sql-executor'
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+
+export const DEFAULT_SQL_TABLE = 'circuit_breaker_state'
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Ordered schema migrations for the circuit breaker state table.
+ * Each entry receives the table name and returns the statements to run; append only.
+ */
+export const SQL_MIGRATIONS: ReadonlyArray<(table: string) => readonly string[]> = [
+  table => [
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      key TEXT PRIMARY KEY,
+      state TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`,
+  ],
+]
+
+/**
+ * Rejects table names that are not plain SQL identifiers, since they are interpolated.
+ * @param table The table name to check
+ * @returns The table name
+ */
+export function assertTableName(table: string): string {
+  if (!IDENTIFIER.test(table)) throw new Error(`Invalid SQL table name "${table}"`)
+  return table
+}
+
+/**
+ * Applies pending schema migrations, tracking applied ones in `<table>_migrations`.
+ * Safe to run on every startup.
+ * @param executor The SQL executor
+ * @param table The state table name
+ * @param clock Clock used to stamp `applied_at`, defaults to systemClock
+ * @returns The schema version after migrating
+ */
+export async function migrateCircuitBreakerSchema(
+  executor: SqlExecutor,
+  table: string = DEFAULT_SQL_TABLE,
+  clock: Clock = systemClock,
+): Promise<number> {
+  const migrations = `${assertTableName(table)}_migrations`
+  await executor.run(
+    `CREATE TABLE IF NOT EXISTS ${migrations} (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)`,
+  )
+  const row = await executor.first<{ version: number | null }>(
+    `SELECT MAX(version) AS version FROM ${migrations}`,
+  )
+  const applied = row?.version ?? 0
+  for (let version = applied + 1; version <= SQL_MIGRATIONS.length; version++) {
+    for (const statement of SQL_MIGRATIONS[version - 1]!(table)) {
+      await executor.run(statement)
+    }
+    await executor.run(`INSERT INTO ${migrations} (version, applied_at) VALUES (?, ?)`, [
+      version,
+      clock.now(),
+    ])
+  }
+  return SQL_MIGRATIONS.length
+}
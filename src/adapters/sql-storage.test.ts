@@ -0,0 +1,117 @@
+import type { SqlExecutor, SqlValue } from '@/adapters/sql-executor'
+import { DEFAULT_SQL_TABLE, migrateCircuitBreakerSchema } from '@/adapters/sql-schema'
+import { SqlCircuitBreakerStorage } from '@/adapters/sql-storage'
+import { Errors } from '@/errors'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type { CircuitBreakerState } from '@/types'
+import initSqlJs, { type Database } from 'sql.js'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+const SQL = await initSqlJs()
+
+function sqlJsExecutor(db: Database): SqlExecutor {
+  return {
+    async run(sql: string, params: readonly SqlValue[] = []) {
+      db.run(sql, [...params])
+      return { changes: db.getRowsModified() }
+    },
+    async first<T>(sql: string, params: readonly SqlValue[] = []) {
+      const statement = db.prepare(sql, [...params])
+      try {
+        return statement.step() ? (statement.getAsObject() as T) : undefined
+      } finally {
+        statement.free()
+      }
+    },
+  }
+}
+
+describe('SqlCircuitBreakerStorage', () => {
+  const state: CircuitBreakerState = { status: 'OPEN', failureCount: 0, successCount: 0 }
+  let db: Database
+  let executor: SqlExecutor
+  let storage: SqlCircuitBreakerStorage
+
+  beforeEach(async () => {
+    db = new SQL.Database()
+    executor = sqlJsExecutor(db)
+    await migrateCircuitBreakerSchema(executor)
+    storage = new SqlCircuitBreakerStorage(executor)
+  })
+
+  it('should apply migrations only once', async () => {
+    expect(await migrateCircuitBreakerSchema(executor)).toBe(1)
+    const row = await executor.first<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ${DEFAULT_SQL_TABLE}_migrations`,
+    )
+    expect(row?.count).toBe(1)
+  })
+
+  it('should return undefined for unknown keys', async () => {
+    expect(await storage.get('missing')).toBeUndefined()
+  })
+
+  it('should store state with an integer version', async () => {
+    expect(await storage.put('cb', state)).toBe('1')
+    expect(await storage.put('cb', { ...state, failureCount: 1 })).toBe('2')
+    expect(await storage.get('cb')).toEqual({
+      value: { ...state, failureCount: 1 },
+      version: '2',
+    })
+  })
+
+  it('should update conditionally on the expected version', async () => {
+    await storage.put('cb', state)
+    expect(await storage.put('cb', state, '1')).toBe('2')
+    await expect(storage.put('cb', state, '1')).rejects.toThrow(Errors.ConcurrencyConflictError)
+    expect((await storage.get('cb'))?.version).toBe('2')
+  })
+
+  it('should insert when a versioned write targets a missing row', async () => {
+    expect(await storage.put('cb', state, '7')).toBe('1')
+  })
+
+  it('should insert only if absent when the expected version is null', async () => {
+    expect(await storage.put('cb', state, null)).toBe('1')
+    await expect(storage.put('cb', state, null)).rejects.toThrow(Errors.ConcurrencyConflictError)
+    expect((await storage.get('cb'))?.version).toBe('1')
+  })
+
+  it('should delete stored state', async () => {
+    await storage.put('cb', state)
+    await storage.delete('cb')
+    expect(await storage.get('cb')).toBeUndefined()
+  })
+
+  it('should reject table names that are not identifiers', () => {
+    expect(() => new SqlCircuitBreakerStorage(executor, 'x; DROP TABLE y')).toThrow(
+      'Invalid SQL table name',
+    )
+  })
+
+  it('should surface conflicts to RemoteCircuitBreaker', async () => {
+    const options = { failureThreshold: 2, successThreshold: 1, resetTimeoutMs: 1000 }
+    const first = new RemoteCircuitBreaker(options, storage, 'cb')
+    const second = new RemoteCircuitBreaker(options, storage, 'cb')
+    await first.save()
+    await first.load()
+    await second.load()
+    await second.saveWithRetry(b => b.recordFailure())
+    first.recordFailure()
+    await expect(first.save()).rejects.toThrow(Errors.ConcurrencyConflictError)
+    await first.saveWithRetry(b => b.recordFailure())
+    expect((await storage.get('cb'))?.value.status).toBe('OPEN')
+  })
+
+  it('should not overwrite a record created after an empty load', async () => {
+    const options = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 }
+    const first = new RemoteCircuitBreaker(options, storage, 'cb')
+    const second = new RemoteCircuitBreaker(options, storage, 'cb')
+    await first.load()
+    await second.load()
+    first.recordFailure()
+    await first.save()
+    await expect(second.save()).rejects.toThrow(Errors.ConcurrencyConflictError)
+    expect((await storage.get('cb'))?.value.status).toBe('OPEN')
+  })
+})
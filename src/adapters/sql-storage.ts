@@ -0,0 +1,87 @@
+import type { SqlExecutor } from '@/adapters/sql-executor'
+import { DEFAULT_SQL_TABLE, assertTableName } from '@/adapters/sql-schema'
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+import { Errors } from '@/errors'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerState,
+  VersionedStorageValue,
+} from '@/types'
+
+/**
+ * Storage over SQL (Cloudflare D1, SQLite) keeping one row per breaker with an integer version.
+ * Versioned writes are conditional `UPDATE ... WHERE version = ?` statements, and writes
+ * expecting no record are `INSERT ... ON CONFLICT DO NOTHING`, so conflicts are detected
+ * atomically by the database. Run migrateCircuitBreakerSchema first.
+ */
+export class SqlCircuitBreakerStorage implements AsyncCircuitBreakerStorage {
+  private readonly table: string
+
+  /**
+   * @param executor The SQL executor, e.g. from d1Executor or sqliteExecutor
+   * @param table The state table name
+   * @param clock Clock used to stamp `updated_at`, defaults to systemClock
+   */
+  constructor(
+    private executor: SqlExecutor,
+    table: string = DEFAULT_SQL_TABLE,
+    private clock: Clock = systemClock,
+  ) {
+    this.table = assertTableName(table)
+  }
+
+  async put(
+    key: string,
+    value: CircuitBreakerState,
+    expectedVersion?: string | null,
+  ): Promise<string> {
+    const state = JSON.stringify(value)
+    const now = this.clock.now()
+    if (expectedVersion === undefined) {
+      const row = await this.executor.first<{ version: number }>(
+        `INSERT INTO ${this.table} (key, state, version, updated_at) VALUES (?, ?, 1, ?)
+         ON CONFLICT(key) DO UPDATE SET state = excluded.state, version = version + 1,
+         updated_at = excluded.updated_at
+         RETURNING version`,
+        [key, state, now],
+      )
+      return String(row?.version)
+    }
+    if (expectedVersion === null) {
+      const { changes } = await this.executor.run(
+        `INSERT INTO ${this.table} (key, state, version, updated_at) VALUES (?, ?, 1, ?)
+         ON CONFLICT(key) DO NOTHING`,
+        [key, state, now],
+      )
+      if (changes === 1) return '1'
+      throw new Errors.ConcurrencyConflictError(key)
+    }
+    const { changes } = await this.executor.run(
+      `UPDATE ${this.table} SET state = ?, version = version + 1, updated_at = ?
+       WHERE key = ? AND version = ?`,
+      [state, now, key, Number(expectedVersion)],
+    )
+    if (changes === 1) return String(Number(expectedVersion) + 1)
+    const inserted = await this.executor.run(
+      `INSERT INTO ${this.table} (key, state, version, updated_at) VALUES (?, ?, 1, ?)
+       ON CONFLICT(key) DO NOTHING`,
+      [key, state, now],
+    )
+    if (inserted.changes === 1) return '1'
+    throw new Errors.ConcurrencyConflictError(key)
+  }
+
+  async get(key: string): Promise<VersionedStorageValue | undefined> {
+    const row = await this.executor.first<{ state: string; version: number }>(
+      `SELECT state, version FROM ${this.table} WHERE key = ?`,
+      [key],
+    )
+    if (!row) return undefined
+    return { value: JSON.parse(row.state) as CircuitBreakerState, version: String(row.version) }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.executor.run(`DELETE FROM ${this.table} WHERE key = ?`, [key])
+  }
+}
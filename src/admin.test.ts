@@ -0,0 +1,148 @@
+import { createAdminHandler } from '@/admin'
+import { ManualClock } from '@/clock'
+import { CircuitBreakerRegistry, remoteCircuitBreakerFactory } from '@/registry'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerOptions,
+  VersionedStorageValue,
+} from '@/types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+describe('createAdminHandler', () => {
+  const defaults: CircuitBreakerOptions = {
+    failureThreshold: 1,
+    successThreshold: 1,
+    resetTimeoutMs: 60_000,
+  }
+  const authorize = (request: Request) => request.headers.get('Authorization') === 'Bearer secret'
+  let registry: CircuitBreakerRegistry
+
+  const post = (path: string, body?: unknown, token = 'secret') =>
+    new Request(`https://svc.test/admin${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+  beforeEach(() => {
+    registry = new CircuitBreakerRegistry({ defaults })
+    registry.get('payments')
+    registry.get('search')
+  })
+
+  it('should report health, failing only on critical OPEN breakers', async () => {
+    const handle = createAdminHandler({ registry, basePath: '/admin', critical: ['payments'] })
+    const healthy = await handle(new Request('https://svc.test/admin/health'))
+    expect(healthy.status).toBe(200)
+    expect(healthy.headers.get('Cache-Control')).toBe('no-store')
+    expect(await healthy.json()).toEqual({
+      status: 'UP',
+      breakers: { payments: 'CLOSED', search: 'CLOSED' },
+    })
+
+    registry.get('search').recordFailure()
+    expect((await handle(new Request('https://svc.test/admin/health'))).status).toBe(200)
+    registry.get('payments').recordFailure()
+    const unhealthy = await handle(new Request('https://svc.test/admin/health'))
+    expect(unhealthy.status).toBe(503)
+    expect(await unhealthy.json()).toMatchObject({ status: 'DOWN' })
+  })
+
+  it('should report health again once a forced open override expires', async () => {
+    const clock = new ManualClock()
+    registry = new CircuitBreakerRegistry({ defaults: { ...defaults, clock } })
+    const handle = createAdminHandler({ registry })
+    registry.get('payments').forceOpen({ durationMs: 1000 })
+    expect((await handle(new Request('https://svc.test/health'))).status).toBe(503)
+    clock.advance(1_000_000)
+    const health = await handle(new Request('https://svc.test/health'))
+    expect(health.status).toBe(200)
+    expect(await health.json()).toEqual({ status: 'UP', breakers: { payments: 'CLOSED' } })
+  })
+
+  it('should list breaker states', async () => {
+    const handle = createAdminHandler({ registry })
+    registry.get('search').recordFailure()
+    const list = await handle(new Request('https://svc.test/breakers'))
+    expect(await list.json()).toEqual({ breakers: registry.snapshot() })
+
+    const one = await handle(new Request('https://svc.test/breakers/search'))
+    expect(await one.json()).toMatchObject({ name: 'search', state: { status: 'OPEN' } })
+    expect((await handle(new Request('https://svc.test/breakers/unknown'))).status).toBe(404)
+    expect((await handle(new Request('https://svc.test/other'))).status).toBe(404)
+  })
+
+  it('should apply operator controls for authorized POST requests', async () => {
+    const handle = createAdminHandler({ registry, basePath: '/admin/', authorize })
+    const forced = await handle(post('/breakers/payments/force-open', { durationMs: 5000 }))
+    expect(forced.status).toBe(200)
+    expect(await forced.json()).toMatchObject({
+      name: 'payments',
+      state: { status: 'OPEN', override: 'FORCED_OPEN' },
+    })
+
+    const reset = await handle(post('/breakers/payments/reset'))
+    expect(await reset.json()).toEqual({
+      name: 'payments',
+      state: { status: 'CLOSED', failureCount: 0, successCount: 0 },
+    })
+  })
+
+  it('should refuse unauthorized, malformed and misrouted changes', async () => {
+    const withoutAuth = createAdminHandler({ registry, basePath: '/admin' })
+    expect((await withoutAuth(post('/breakers/payments/disable'))).status).toBe(401)
+
+    const handle = createAdminHandler({ registry, basePath: '/admin', authorize })
+    expect((await handle(post('/breakers/payments/disable', undefined, 'wrong'))).status).toBe(401)
+    expect((await handle(post('/breakers/payments/disable', { durationMs: -1 }))).status).toBe(400)
+    expect((await handle(post('/breakers/payments/explode'))).status).toBe(404)
+    for (const inherited of ['constructor', 'toString', 'hasOwnProperty']) {
+      expect((await handle(post(`/breakers/payments/${inherited}`))).status).toBe(404)
+    }
+    const get = await handle(new Request('https://svc.test/admin/breakers/payments/reset'))
+    expect(get.status).toBe(405)
+    expect(get.headers.get('Allow')).toBe('POST')
+    expect(registry.get('payments').getState().override).toBeUndefined()
+  })
+
+  it('should sync remote breakers and persist operator controls', async () => {
+    const store = new Map<string, VersionedStorageValue>()
+    let version = 0
+    const storage: AsyncCircuitBreakerStorage = {
+      async put(key, value) {
+        store.set(key, { value, version: String(++version) })
+        return String(version)
+      },
+      async get(key) {
+        return store.get(key)
+      },
+      async delete(key) {
+        store.delete(key)
+      },
+    }
+    const remote = new CircuitBreakerRegistry({
+      defaults,
+      factory: remoteCircuitBreakerFactory(storage),
+    })
+    remote.get('payments')
+    store.set('payments', {
+      value: { status: 'OPEN', failureCount: 0, successCount: 0, openedAt: Date.now() },
+      version: 'other',
+    })
+    const handle = createAdminHandler({ registry: remote, authorize })
+
+    const health = await handle(new Request('https://svc.test/health'))
+    expect(health.status).toBe(503)
+
+    await handle(
+      new Request('https://svc.test/breakers/payments/force-close', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret' },
+      }),
+    )
+    expect(store.get('payments')?.value).toMatchObject({
+      status: 'CLOSED',
+      override: 'FORCED_CLOSED',
+    })
+  })
+})
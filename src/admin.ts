@@ -0,0 +1,171 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import type { CircuitBreakerRegistry } from '@/registry'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type { CircuitBreakerStatus, OverrideOptions } from '@/types'
+
+/**
+ * Configuration for createAdminHandler.
+ */
+export interface AdminHandlerOptions<B extends CircuitBreaker = CircuitBreaker> {
+  /** The registry whose breakers are exposed */
+  readonly registry: CircuitBreakerRegistry<B>
+  /** Path prefix the handler is mounted under, such as `/admin`, defaults to none */
+  readonly basePath?: string
+  /** Names of the breakers whose OPEN state makes the service unhealthy, defaults to all */
+  readonly critical?: readonly string[]
+  /** Decides whether a request may change breakers; without it every POST is refused */
+  readonly authorize?: (request: Request) => boolean | Promise<boolean>
+}
+
+/**
+ * Body of the health endpoint.
+ */
+export interface AdminHealth {
+  /** DOWN when a critical breaker is OPEN */
+  readonly status: 'UP' | 'DOWN'
+  readonly breakers: Record<string, CircuitBreakerStatus>
+}
+
+/**
+ * Operator controls reachable through POST, keyed by their path segment.
+ */
+const ACTIONS = new Map<string, (breaker: CircuitBreaker, options: OverrideOptions) => void>([
+  ['reset', breaker => breaker.reset()],
+  ['force-open', (breaker, options) => breaker.forceOpen(options)],
+  ['force-close', (breaker, options) => breaker.forceClose(options)],
+  ['disable', (breaker, options) => breaker.disable(options)],
+])
+
+/**
+ * Creates a fetch-style handler exposing the registry's breakers to load balancers and
+ * operators. Remote breakers are synced from storage before they are reported, and operator
+ * controls on them are persisted before the response is sent.
+ *
+ * Routes, relative to `basePath` (names are URL-encoded path segments):
+ *
+ *   GET  /health                 200 with AdminHealth, or 503 when a critical breaker is OPEN
+ *   GET  /breakers               the state of every breaker, keyed by name
+ *   GET  /breakers/:name         the state of one breaker
+ *   POST /breakers/:name/:action reset, force-open, force-close or disable, with an optional
+ *                                JSON body `{ "durationMs": 60000 }` for the overrides
+ *
+ * @param options The registry, critical breakers and authorization
+ * @returns A function handling admin requests
+ */
+export function createAdminHandler<B extends CircuitBreaker>(
+  options: AdminHandlerOptions<B>,
+): (request: Request) => Promise<Response> {
+  const { registry } = options
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '')
+
+  return async request => {
+    const { pathname } = new URL(request.url)
+    if (!pathname.startsWith(`${basePath}/`)) return json({ error: 'Not found' }, 404)
+    const [resource, encodedName, action, ...rest] = pathname.slice(basePath.length + 1).split('/')
+    let name: string | undefined
+    try {
+      name = encodedName === undefined ? undefined : decodeURIComponent(encodedName)
+    } catch {
+      return json({ error: 'Not found' }, 404)
+    }
+
+    if (resource === 'health' && name === undefined) {
+      if (request.method !== 'GET') return methodNotAllowed('GET')
+      await syncRemote(registry.list())
+      const breakers = registry.snapshot()
+      const down = Object.entries(breakers).some(
+        ([breakerName, state]) =>
+          state.status === 'OPEN' && (options.critical?.includes(breakerName) ?? true),
+      )
+      const health: AdminHealth = {
+        status: down ? 'DOWN' : 'UP',
+        breakers: Object.fromEntries(
+          Object.entries(breakers).map(([breakerName, state]) => [breakerName, state.status]),
+        ),
+      }
+      return json(health, down ? 503 : 200)
+    }
+
+    if (resource !== 'breakers' || rest.length > 0) return json({ error: 'Not found' }, 404)
+    if (name === undefined) {
+      if (request.method !== 'GET') return methodNotAllowed('GET')
+      await syncRemote(registry.list())
+      return json({ breakers: registry.snapshot() })
+    }
+    const breaker = registry.find(name)
+    if (!breaker) return json({ error: `Unknown breaker "${name}"` }, 404)
+    if (action === undefined) {
+      if (request.method !== 'GET') return methodNotAllowed('GET')
+      await syncRemote([breaker])
+      return json({ name, state: breaker.getState() })
+    }
+
+    const apply = ACTIONS.get(action)
+    if (!apply) return json({ error: 'Not found' }, 404)
+    if (request.method !== 'POST') return methodNotAllowed('POST')
+    if (!(await options.authorize?.(request))) return json({ error: 'Unauthorized' }, 401)
+    let overrideOptions: OverrideOptions
+    try {
+      overrideOptions = await readOverrideOptions(request)
+    } catch (err) {
+      return json({ error: (err as Error).message }, 400)
+    }
+    try {
+      if (breaker instanceof RemoteCircuitBreaker) {
+        await breaker.saveWithRetry(b => apply(b, overrideOptions))
+      } else {
+        apply(breaker, overrideOptions)
+      }
+    } catch (err) {
+      return json({ error: (err as Error).message }, 500)
+    }
+    return json({ name, state: breaker.getState() })
+  }
+}
+
+/**
+ * Hydrates the remote breakers among `breakers` from storage.
+ */
+async function syncRemote(breakers: CircuitBreaker[]): Promise<void> {
+  await Promise.all(
+    breakers.map(breaker => (breaker instanceof RemoteCircuitBreaker ? breaker.sync() : undefined)),
+  )
+}
+
+/**
+ * Reads the optional `durationMs` of an override from a JSON request body.
+ * @throws Error if the body is not JSON or the duration is not a non-negative number
+ */
+async function readOverrideOptions(request: Request): Promise<OverrideOptions> {
+  const text = await request.text()
+  if (!text) return {}
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw new Error('Request body is not valid JSON')
+  }
+  const durationMs = (body as { durationMs?: unknown } | null)?.durationMs
+  if (durationMs === undefined) return {}
+  if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0) {
+    throw new Error('durationMs must be a non-negative number')
+  }
+  return { durationMs }
+}
+
+/**
+ * Builds an uncached JSON response.
+ */
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  })
+}
+
+/**
+ * Builds the response for a route called with the wrong method.
+ */
+function methodNotAllowed(allowed: string): Response {
+  return json({ error: 'Method not allowed' }, 405, { Allow: allowed })
+}
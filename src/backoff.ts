@@ -0,0 +1,56 @@
+import type { RetryOptions } from '@/retry'
+import type { BackoffOptions } from '@/types'
+
+/**
+ * Computes how long the circuit stays OPEN after a number of consecutive trips.
+ * Grows `resetTimeoutMs` by `multiplier` per trip, capped at `maxResetTimeoutMs`,
+ * then spreads it by ±`jitter` (as a fraction of the timeout).
+ * @param resetTimeoutMs Base reset timeout in milliseconds
+ * @param backoff Backoff policy
+ * @param consecutiveTrips HALF_OPEN → OPEN transitions since the circuit was last CLOSED
+ * @returns The reset timeout in milliseconds
+ */
+export function computeResetTimeout(
+  resetTimeoutMs: number,
+  backoff: BackoffOptions,
+  consecutiveTrips: number,
+): number {
+  const grown = resetTimeoutMs * backoff.multiplier ** consecutiveTrips
+  const capped = Math.min(backoff.maxResetTimeoutMs, grown)
+  const jitter = backoff.jitter ?? 0
+  const spread = capped * jitter * (Math.random() * 2 - 1)
+  return Math.round(Math.min(backoff.maxResetTimeoutMs, capped + spread))
+}
+
+/**
+ * Computes the delay before the next retry.
+ * Grows `baseDelayMs` by `multiplier` per attempt, capped at `maxDelayMs`, then applies jitter:
+ * FULL picks a delay up to the grown one, DECORRELATED one between the base delay and three
+ * times the previous delay.
+ * @param options Retry policy
+ * @param attempt The attempt that failed, starting at 1
+ * @param previousDelayMs Delay before the failed attempt, the base delay for the first
+ * @returns The delay in milliseconds
+ */
+export function computeRetryDelay(
+  options: RetryOptions,
+  attempt: number,
+  previousDelayMs: number,
+): number {
+  const maxDelayMs = options.maxDelayMs ?? 30_000
+  const { baseDelayMs } = options
+  switch (options.jitter ?? 'FULL') {
+    case 'DECORRELATED': {
+      const upper = Math.max(baseDelayMs, previousDelayMs * 3)
+      return Math.round(Math.min(maxDelayMs, baseDelayMs + Math.random() * (upper - baseDelayMs)))
+    }
+    case 'FULL':
+      return Math.round(Math.random() * exponentialDelay(options, attempt, maxDelayMs))
+    case 'NONE':
+      return Math.round(exponentialDelay(options, attempt, maxDelayMs))
+  }
+}
+
+function exponentialDelay(options: RetryOptions, attempt: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, options.baseDelayMs * (options.multiplier ?? 2) ** (attempt - 1))
+}
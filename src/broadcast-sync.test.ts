@@ -0,0 +1,110 @@
+import type { BroadcastChannelLike } from '@/broadcast-sync'
+import { SYNC_MESSAGE_TYPE, syncOverBroadcastChannel } from '@/broadcast-sync'
+import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import type { CircuitBreakerOptions, StateChangeReason } from '@/types'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('syncOverBroadcastChannel', () => {
+  let clock: ManualClock
+  let options: CircuitBreakerOptions
+  let channels: Array<{ close(): void }>
+
+  const channel = () => {
+    const endpoint = new BroadcastChannel('zapguard-test')
+    channels.push(endpoint)
+    return endpoint as unknown as BroadcastChannelLike
+  }
+
+  beforeEach(() => {
+    clock = new ManualClock(1000)
+    options = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 60_000, clock }
+    channels = []
+  })
+
+  afterEach(() => {
+    for (const endpoint of channels) endpoint.close()
+  })
+
+  it('should propagate OPEN and CLOSED transitions between instances', async () => {
+    const a = new CircuitBreaker(options, 'api')
+    const reasons: StateChangeReason[] = []
+    const b = new CircuitBreaker(options, 'api', {
+      onStateChange: (_prev, _next, meta) => reasons.push(meta.reason),
+    })
+    syncOverBroadcastChannel(a, channel(), { instanceId: 'a' })
+    syncOverBroadcastChannel(b, channel(), { instanceId: 'b' })
+
+    a.recordFailure()
+    await vi.waitFor(() => expect(b.isOpen()).toBe(true))
+    expect(b.getState().openedAt).toBe(1000)
+    expect(reasons).toEqual(['SYNCED'])
+
+    clock.advance(1)
+    b.reset()
+    await vi.waitFor(() => expect(a.isClosed()).toBe(true))
+  })
+
+  it('should not publish adopted transitions back', () => {
+    const posted: unknown[] = []
+    let deliver: (event: { data: unknown }) => void = () => {}
+    const endpoint: BroadcastChannelLike = {
+      postMessage: message => posted.push(message),
+      addEventListener: (_type, listener) => {
+        deliver = listener
+      },
+      removeEventListener: () => {},
+    }
+    const breaker = new CircuitBreaker(options, 'api')
+    syncOverBroadcastChannel(breaker, endpoint, { instanceId: 'local' })
+    deliver({
+      data: {
+        type: SYNC_MESSAGE_TYPE,
+        name: 'api',
+        source: 'remote',
+        transitionAt: 1000,
+        state: { status: 'OPEN', failureCount: 0, successCount: 0, openedAt: 1000 },
+      },
+    })
+    expect(breaker.isOpen()).toBe(true)
+    expect(posted).toEqual([])
+  })
+
+  it('should let the latest transition win and ignore other breakers and invalid states', () => {
+    let deliver: (event: { data: unknown }) => void = () => {}
+    const endpoint: BroadcastChannelLike = {
+      postMessage: () => {},
+      addEventListener: (_type, listener) => {
+        deliver = listener
+      },
+      removeEventListener: () => {},
+    }
+    const breaker = new CircuitBreaker(options, 'api')
+    syncOverBroadcastChannel(breaker, endpoint, { instanceId: 'local' })
+    clock.advance(1000)
+    breaker.recordFailure()
+    const message = (transitionAt: number, state: unknown, name = 'api') => ({
+      data: { type: SYNC_MESSAGE_TYPE, name, source: 'remote', transitionAt, state },
+    })
+    const closed = { status: 'CLOSED', failureCount: 0, successCount: 0 }
+
+    deliver(message(1500, closed))
+    deliver(message(2500, closed, 'other'))
+    deliver(message(2500, { status: 'BROKEN' }))
+    expect(breaker.isOpen()).toBe(true)
+    deliver(message(2500, closed))
+    expect(breaker.isClosed()).toBe(true)
+  })
+
+  it('should stop syncing when unsubscribed', async () => {
+    const a = new CircuitBreaker(options, 'api')
+    const b = new CircuitBreaker(options, 'api')
+    const stop = syncOverBroadcastChannel(a, channel())
+    syncOverBroadcastChannel(b, channel())
+    stop()
+    a.recordFailure()
+    b.forceOpen()
+    await new Promise(resolve => setTimeout(resolve, 20))
+    expect(a.getState().override).toBeUndefined()
+  })
+})
@@ -0,0 +1,117 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import { STATE_SCHEMA_VERSION, parseCircuitBreakerState } from '@/state-schema'
+import type { CircuitBreakerState, StateChangeReason } from '@/types'
+
+/**
+ * The subset of BroadcastChannel used for state sync, satisfied by any endpoints that
+ * deliver messages to each other but not to themselves. Node's BroadcastChannel is an
+ * EventTarget at runtime, but its typings omit addEventListener and need a cast.
+ */
+export interface BroadcastChannelLike {
+  postMessage(message: unknown): void
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+  removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+}
+
+/**
+ * Message published for every shared transition of a breaker.
+ */
+export interface CircuitBreakerSyncMessage {
+  readonly type: typeof SYNC_MESSAGE_TYPE
+  /** Name of the breaker, so several breakers can share one channel */
+  readonly name?: string
+  /** Id of the publishing instance */
+  readonly source: string
+  /** Timestamp of the transition, ordering transitions across instances */
+  readonly transitionAt: number
+  readonly state: CircuitBreakerState
+}
+
+/**
+ * Options for syncOverBroadcastChannel.
+ */
+export interface BroadcastSyncOptions {
+  /** Id of this instance, defaults to a random UUID */
+  readonly instanceId?: string
+}
+
+/**
+ * Marks the messages published by syncOverBroadcastChannel among other channel traffic.
+ */
+export const SYNC_MESSAGE_TYPE = 'zapguard:circuit-breaker-state'
+
+/**
+ * Transitions every instance makes on its own: HALF_OPEN probing, call bookkeeping, and
+ * transitions adopted from other instances, which are never published back.
+ */
+const LOCAL_REASONS: ReadonlySet<StateChangeReason> = new Set<StateChangeReason>([
+  'RESET_TIMEOUT_ELAPSED',
+  'CALL_RECORDED',
+  'PROBE_SLOT_CHANGED',
+  'SYNCED',
+])
+
+/**
+ * Shares a breaker's OPEN and CLOSED transitions with its instances in other threads or
+ * isolates, so that only one of them pays for discovering an outage. Transitions, including
+ * operator overrides and resets, are published on the channel, and transitions published by
+ * other instances are adopted locally with reason SYNCED. The latest transition wins: a
+ * message older than the last transition seen is dropped. Adopted transitions are never
+ * republished, and messages failing state validation are ignored.
+ *
+ * @param breaker The breaker to sync, named like its instances elsewhere
+ * @param channel The channel shared by the instances
+ * @param options Optional instance id
+ * @returns A function that stops syncing; the channel is left open
+ */
+export function syncOverBroadcastChannel(
+  breaker: CircuitBreaker,
+  channel: BroadcastChannelLike,
+  options: BroadcastSyncOptions = {},
+): () => void {
+  const source = options.instanceId ?? crypto.randomUUID()
+  let last: { transitionAt: number; source: string } | undefined
+  // Equal timestamps are ordered by instance id, so every instance settles on the same state
+  const isLatest = (transitionAt: number, from: string) =>
+    !last ||
+    transitionAt > last.transitionAt ||
+    (transitionAt === last.transitionAt && from > last.source)
+
+  const unsubscribe = breaker.subscribe({
+    onStateChange: (_prev, next, meta) => {
+      if (LOCAL_REASONS.has(meta.reason) || next.status === 'HALF_OPEN') return
+      last = { transitionAt: meta.timestamp, source }
+      const message: CircuitBreakerSyncMessage = {
+        type: SYNC_MESSAGE_TYPE,
+        name: breaker.name,
+        source,
+        transitionAt: meta.timestamp,
+        state: { ...next, schemaVersion: STATE_SCHEMA_VERSION },
+      }
+      channel.postMessage(message)
+    },
+  })
+
+  const onMessage = (event: { data: unknown }) => {
+    const message = event.data as Partial<CircuitBreakerSyncMessage> | null
+    if (message?.type !== SYNC_MESSAGE_TYPE || message.name !== breaker.name) return
+    const { transitionAt, source: from } = message
+    if (typeof transitionAt !== 'number' || typeof from !== 'string' || from === source) return
+    if (!isLatest(transitionAt, from)) return
+    let state: CircuitBreakerState
+    try {
+      state = parseCircuitBreakerState(breaker.name ?? '', message.state)
+    } catch {
+      return
+    }
+    if (state.status === 'HALF_OPEN') return
+    last = { transitionAt, source: from }
+    breaker.adoptState(state)
+  }
+  channel.addEventListener('message', onMessage)
+
+  return () => {
+    unsubscribe()
+    channel.removeEventListener('message', onMessage)
+  }
+}
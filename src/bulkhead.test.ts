@@ -0,0 +1,102 @@
+import { Bulkhead, withBulkhead } from '@/bulkhead'
+import type { BulkheadRejectionReason } from '@/bulkhead'
+import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import { withCircuitBreaker } from '@/decorator'
+import { Errors } from '@/errors'
+import { describe, expect, it } from 'vitest'
+
+/**
+ * A call that stays pending until `resolve` is invoked.
+ */
+function deferred(): { promise: Promise<string>; resolve: (value: string) => void } {
+  let resolve: (value: string) => void = () => {}
+  const promise = new Promise<string>(r => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+describe('Bulkhead', () => {
+  it('should run at most maxConcurrent calls and queue the rest', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 2, maxQueue: 1 })
+    const calls = [deferred(), deferred(), deferred()]
+    let started = 0
+    const results = calls.map(call =>
+      bulkhead.execute(() => {
+        started++
+        return call.promise
+      }),
+    )
+    await Promise.resolve()
+    expect(started).toBe(2)
+    expect(bulkhead.getStats()).toMatchObject({ active: 2, queued: 1 })
+
+    calls[0]?.resolve('a')
+    await results[0]
+    await Promise.resolve()
+    expect(started).toBe(3)
+    calls[1]?.resolve('b')
+    calls[2]?.resolve('c')
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c'])
+    expect(bulkhead.getStats()).toMatchObject({ active: 0, queued: 0 })
+  })
+
+  it('should reject calls once the queue is full', async () => {
+    const rejections: BulkheadRejectionReason[] = []
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 }, 'db', {
+      onRejected: ({ reason }) => rejections.push(reason),
+    })
+    const running = deferred()
+    const first = bulkhead.execute(() => running.promise)
+    await expect(bulkhead.execute(async () => 'x')).rejects.toMatchObject({
+      name: 'BulkheadRejectedError',
+      bulkheadName: 'db',
+      reason: 'QUEUE_FULL',
+    })
+    expect(rejections).toEqual(['QUEUE_FULL'])
+    running.resolve('done')
+    await expect(first).resolves.toBe('done')
+  })
+
+  it('should reject queued calls after the queue timeout', async () => {
+    const clock = new ManualClock()
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 100, clock })
+    const running = deferred()
+    void bulkhead.execute(() => running.promise)
+    const queued = bulkhead.execute(async () => 'late')
+    clock.advance(100)
+    await expect(queued).rejects.toThrow(Errors.BulkheadRejectedError)
+    expect(bulkhead.getStats().queued).toBe(0)
+    running.resolve('done')
+  })
+
+  it('should release the slot when the call fails', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 })
+    const failing = withBulkhead(bulkhead, async () => {
+      throw new Error('boom')
+    })
+    await expect(failing()).rejects.toThrow('boom')
+    expect(bulkhead.getStats().active).toBe(0)
+  })
+
+  it('should keep bulkhead rejections out of the breaker with ignoreErrors', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 })
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    const running = deferred()
+    const guarded = withCircuitBreaker(
+      breaker,
+      withBulkhead(bulkhead, () => running.promise),
+      { ignoreErrors: [Errors.BulkheadRejectedError] },
+    )
+    const first = guarded()
+    await expect(guarded()).rejects.toThrow(Errors.BulkheadRejectedError)
+    expect(breaker.isClosed()).toBe(true)
+    running.resolve('ok')
+    await expect(first).resolves.toBe('ok')
+  })
+})
@@ -0,0 +1,219 @@
+import type { Clock, TimerHandle } from '@/clock'
+import { systemClock } from '@/clock'
+import { Errors } from '@/errors'
+import { callHook } from '@/hooks'
+
+/**
+ * Configuration options for a Bulkhead.
+ */
+export interface BulkheadOptions {
+  /** Maximum number of calls running at once */
+  readonly maxConcurrent: number
+  /** Maximum number of calls waiting for a slot; further calls are rejected (default: 0) */
+  readonly maxQueue?: number
+  /** Rejects a queued call that did not get a slot within this time; unlimited when omitted */
+  readonly queueTimeoutMs?: number
+  /** Source of time and timers, defaults to systemClock */
+  readonly clock?: Clock
+}
+
+/**
+ * Enum for why a bulkhead rejected a call.
+ */
+export type BulkheadRejectionReason = 'QUEUE_FULL' | 'QUEUE_TIMEOUT'
+
+/**
+ * Payload shared by every bulkhead event.
+ */
+export interface BulkheadEvent {
+  readonly name?: string
+  /** When the event happened, in milliseconds since the epoch */
+  readonly timestamp: number
+  /** Calls running once the event was handled */
+  readonly active: number
+  /** Calls waiting for a slot once the event was handled */
+  readonly queued: number
+}
+
+/**
+ * Payload of the bulkhead onRejected hook.
+ */
+export interface BulkheadRejectedEvent extends BulkheadEvent {
+  readonly reason: BulkheadRejectionReason
+  /** The BulkheadRejectedError the call was rejected with */
+  readonly error: unknown
+}
+
+/**
+ * Observability hooks for bulkhead events. Like CircuitBreakerHooks, hooks may be async and
+ * never affect the bulkhead.
+ */
+export interface BulkheadHooks {
+  /** A call got a slot */
+  onAcquired?: (event: BulkheadEvent) => void
+  /** A call is waiting for a slot */
+  onQueued?: (event: BulkheadEvent) => void
+  /** A call was rejected */
+  onRejected?: (event: BulkheadRejectedEvent) => void
+  /** A hook threw or its promise rejected */
+  onHookError?: (error: unknown, meta: { name?: string; hook: string }) => void
+  /** Receives the promise of every async hook, such as a Worker's `ctx.waitUntil` */
+  waitUntil?: (promise: Promise<unknown>) => void
+}
+
+interface QueuedCall {
+  readonly resolve: () => void
+  timer?: TimerHandle
+}
+
+/**
+ * Point-in-time view of a bulkhead's occupancy.
+ */
+export interface BulkheadStats {
+  readonly active: number
+  readonly queued: number
+  readonly maxConcurrent: number
+  readonly maxQueue: number
+}
+
+/**
+ * Limits how many calls run at once, queueing a bounded number of extra calls.
+ * Queued calls are admitted in arrival order as running calls release their slot.
+ */
+export class Bulkhead {
+  private active = 0
+  private queue: QueuedCall[] = []
+  private readonly clock: Clock
+
+  /**
+   * @param options Bulkhead configuration options
+   * @param name Optional name for the bulkhead instance
+   * @param hooks Optional observability hooks
+   */
+  constructor(
+    private readonly options: BulkheadOptions,
+    public readonly name?: string,
+    private readonly hooks: BulkheadHooks = {},
+  ) {
+    this.clock = options.clock ?? systemClock
+  }
+
+  /**
+   * Waits for a free slot. Every acquire must be paired with release() once the call settles.
+   * @throws BulkheadRejectedError if the queue is full or the queue timeout elapses
+   */
+  public acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++
+      this.emit('onAcquired', this.event())
+      return Promise.resolve()
+    }
+    if (this.queue.length >= (this.options.maxQueue ?? 0)) {
+      return Promise.reject(this.reject('QUEUE_FULL'))
+    }
+    return new Promise<void>((resolve, reject) => {
+      const queued: QueuedCall = { resolve }
+      const { queueTimeoutMs } = this.options
+      if (queueTimeoutMs !== undefined) {
+        queued.timer = this.clock.setTimeout(() => {
+          this.queue = this.queue.filter(call => call !== queued)
+          reject(this.reject('QUEUE_TIMEOUT'))
+        }, queueTimeoutMs)
+      }
+      this.queue.push(queued)
+      this.emit('onQueued', this.event())
+    })
+  }
+
+  /**
+   * Releases a slot taken by acquire(), handing it to the next queued call if any.
+   */
+  public release(): void {
+    const next = this.queue.shift()
+    if (!next) {
+      this.active = Math.max(0, this.active - 1)
+      return
+    }
+    if (next.timer !== undefined) this.clock.clearTimeout(next.timer)
+    this.emit('onAcquired', this.event())
+    next.resolve()
+  }
+
+  /**
+   * Runs a call in a slot, releasing it once the call settles.
+   * @param call The call to run
+   * @returns The call's result
+   * @throws BulkheadRejectedError if no slot could be acquired
+   */
+  public async execute<R>(call: () => Promise<R>): Promise<R> {
+    await this.acquire()
+    try {
+      return await call()
+    } finally {
+      this.release()
+    }
+  }
+
+  /**
+   * Returns the current occupancy.
+   */
+  public getStats(): BulkheadStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxConcurrent: this.options.maxConcurrent,
+      maxQueue: this.options.maxQueue ?? 0,
+    }
+  }
+
+  /**
+   * Builds a rejection error and reports it to the hooks.
+   */
+  private reject(reason: BulkheadRejectionReason): Error {
+    const error = new Errors.BulkheadRejectedError(this.name, reason)
+    this.emit('onRejected', { ...this.event(), reason, error })
+    return error
+  }
+
+  /**
+   * Builds the payload shared by every bulkhead event.
+   */
+  private event(): BulkheadEvent {
+    return {
+      name: this.name,
+      timestamp: this.clock.now(),
+      active: this.active,
+      queued: this.queue.length,
+    }
+  }
+
+  /**
+   * Calls a hook without letting it affect the bulkhead.
+   */
+  private emit<E extends 'onAcquired' | 'onQueued' | 'onRejected'>(
+    event: E,
+    ...args: Parameters<NonNullable<BulkheadHooks[E]>>
+  ): void {
+    const hook = this.hooks[event] as ((...params: typeof args) => unknown) | undefined
+    callHook(this.hooks, event, hook, args, this.name)
+  }
+}
+
+/**
+ * Wraps an async function so that it runs within the bulkhead's concurrency limit.
+ * Composes with withCircuitBreaker in either order: wrap the breaker inside the bulkhead to
+ * keep rejections away from the breaker, or pass `ignoreErrors: [Errors.BulkheadRejectedError]`
+ * when the bulkhead sits inside the breaker.
+ *
+ * @template Args - Argument types of the wrapped function
+ * @template R - Return type of the wrapped function
+ * @param bulkhead The Bulkhead instance
+ * @param fn The async function to wrap
+ * @returns A function that applies the bulkhead to the original function
+ */
+export function withBulkhead<Args extends unknown[], R>(
+  bulkhead: Bulkhead,
+  fn: (...args: Args) => Promise<R>,
+): (...args: Args) => Promise<R> {
+  return (...args: Args): Promise<R> => bulkhead.execute(() => fn(...args))
+}
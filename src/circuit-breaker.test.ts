@@ -1,6 +1,8 @@
 import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import { Errors } from '@/errors'
 import type { CircuitBreakerOptions, CircuitBreakerState } from '@/types'
-import { beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 describe('InMemoryCircuitBreaker', () => {
   const options: CircuitBreakerOptions = {
@@ -32,6 +34,28 @@ describe('InMemoryCircuitBreaker', () => {
     expect(() => breaker.assertCanExecute()).toThrow('Circuit breaker is open')
   })
 
+  it('should throw a CircuitOpenError carrying retry-after information', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(10_000)
+    const named = new CircuitBreaker(options, 'payments')
+    named.recordFailure()
+    named.recordFailure()
+    vi.setSystemTime(10_400)
+    try {
+      named.assertCanExecute()
+      expect.unreachable()
+    } catch (err) {
+      expect(err).toBeInstanceOf(Errors.CircuitOpenError)
+      const error = err as InstanceType<typeof Errors.CircuitOpenError>
+      expect(error.breakerName).toBe('payments')
+      expect(error.openedAt).toBe(10_000)
+      expect(error.retryAfterMs).toBe(600)
+      expect(error.retryAfterSeconds).toBe(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
   it('should transition to HALF_OPEN after timeout', () => {
     breaker.recordFailure()
     breaker.recordFailure()
@@ -111,4 +135,553 @@ describe('InMemoryCircuitBreaker - hooks', () => {
     expect(errors.length).toBe(1)
     expect(errors[0]?.operation).toBe('assertCanExecute')
   })
+
+  it('should report the reason and timestamp of state changes', () => {
+    const reasons: string[] = []
+    breaker.subscribe({ onStateChange: (_prev, _next, meta) => reasons.push(meta.reason) })
+    breaker.recordFailure()
+    const breakerWithState = breaker as unknown as { state: { openedAt?: number } }
+    breakerWithState.state.openedAt = Date.now() - 1000
+    breaker.assertCanExecute()
+    breaker.recordSuccess()
+    expect(reasons).toEqual(['FAILURE_THRESHOLD', 'RESET_TIMEOUT_ELAPSED', 'PROBES_SUCCEEDED'])
+  })
+})
+
+describe('InMemoryCircuitBreaker - lifecycle events', () => {
+  let breaker: CircuitBreaker
+  let events: string[]
+
+  beforeEach(() => {
+    events = []
+    breaker = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000, halfOpenMaxCalls: 1 },
+      'test',
+      {
+        onSuccess: e => events.push(`success:${e.durationMs}`),
+        onFailure: e => events.push(`failure:${(e.error as Error).message}`),
+        onRejected: e => events.push(`rejected:${e.retryAfterMs}`),
+        onHalfOpenProbe: e => events.push(`probe:${e.state.halfOpenCalls}`),
+        onReset: e => events.push(`reset:${e.state.status}`),
+      },
+    )
+  })
+
+  it('should emit call, rejection, probe and reset events', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    breaker.recordFailure({ error: new Error('boom'), durationMs: 5 })
+    expect(() => breaker.acquire()).toThrow(Errors.CircuitOpenError)
+    vi.setSystemTime(1000)
+    breaker.acquire()
+    expect(() => breaker.acquire()).toThrow(Errors.CircuitOpenError)
+    breaker.recordSuccess({ durationMs: 7 })
+    vi.useRealTimers()
+
+    expect(events).toEqual([
+      'failure:boom',
+      'rejected:1000',
+      'probe:1',
+      'rejected:0',
+      'success:7',
+      'reset:CLOSED',
+    ])
+  })
+
+  it('should keep transitioning when a hook throws', () => {
+    const hookErrors: string[] = []
+    const faulty = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'test',
+      {
+        onStateChange: () => {
+          throw new Error('hook failed')
+        },
+        onHookError: (_err, meta) => hookErrors.push(meta.hook),
+      },
+    )
+    expect(() => faulty.recordFailure()).not.toThrow()
+    expect(faulty.isOpen()).toBe(true)
+    expect(hookErrors).toEqual(['onStateChange'])
+  })
+
+  it('should hand async hooks to waitUntil and capture their rejections', async () => {
+    const pending: Promise<unknown>[] = []
+    const hookErrors: unknown[] = []
+    const async = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'test',
+      {
+        onFailure: async () => {
+          throw new Error('sink down')
+        },
+        onHookError: err => hookErrors.push(err),
+        waitUntil: promise => pending.push(promise),
+      },
+    )
+    async.recordFailure()
+    expect(async.isOpen()).toBe(true)
+    expect(pending).toHaveLength(1)
+    await Promise.all(pending)
+    expect((hookErrors[0] as Error).message).toBe('sink down')
+  })
+})
+
+describe('InMemoryCircuitBreaker - operator controls', () => {
+  let breaker: CircuitBreaker
+  let reasons: string[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    reasons = []
+    breaker = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'test',
+      { onStateChange: (_prev, _next, meta) => reasons.push(meta.reason) },
+    )
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should reject every call while forced open, even after the reset timeout', () => {
+    breaker.forceOpen()
+    vi.setSystemTime(10_000)
+    expect(() => breaker.acquire()).toThrow(Errors.CircuitOpenError)
+    expect(breaker.getState()).toMatchObject({ status: 'OPEN', override: 'FORCED_OPEN' })
+    expect(reasons).toEqual(['FORCED_OPEN'])
+  })
+
+  it('should never trip while forced closed', () => {
+    breaker.forceClose()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.isClosed()).toBe(true)
+    expect(breaker.getState().failureCount).toBe(0)
+  })
+
+  it('should pass calls through and keep reporting outcomes while disabled', () => {
+    const outcomes: string[] = []
+    breaker.subscribe({ onFailure: () => outcomes.push('failure') })
+    breaker.disable()
+    breaker.recordFailure()
+    breaker.acquire()
+    expect(breaker.isClosed()).toBe(true)
+    expect(outcomes).toEqual(['failure'])
+  })
+
+  it('should reset to CLOSED once the override expires', () => {
+    breaker.forceOpen({ durationMs: 5000 })
+    expect(() => breaker.assertCanExecute()).toThrow(
+      expect.objectContaining({ retryAfterMs: 5000 }),
+    )
+    vi.setSystemTime(5000)
+    breaker.assertCanExecute()
+    expect(breaker.getState()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+    expect(reasons).toEqual(['FORCED_OPEN', 'OVERRIDE_EXPIRED'])
+  })
+
+  it('should report an expired override as expired without a call', () => {
+    breaker.forceOpen({ durationMs: 5000 })
+    vi.setSystemTime(5000)
+    expect(breaker.isOpen()).toBe(false)
+    expect(breaker.getState()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+    expect(reasons).toEqual(['FORCED_OPEN', 'OVERRIDE_EXPIRED'])
+  })
+
+  it('should clear overrides and counters on reset', () => {
+    const resets: number[] = []
+    breaker.subscribe({ onReset: ({ timestamp }) => resets.push(timestamp) })
+    breaker.recordFailure()
+    breaker.reset()
+    expect(breaker.getState()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+    breaker.forceClose()
+    breaker.reset()
+    expect(breaker.getState().override).toBeUndefined()
+    expect(reasons).toEqual(['FAILURE_THRESHOLD', 'MANUAL_RESET', 'FORCED_CLOSED', 'MANUAL_RESET'])
+    expect(resets).toEqual([0, 0])
+  })
+})
+
+describe('InMemoryCircuitBreaker - clock', () => {
+  const options: CircuitBreakerOptions = {
+    failureThreshold: 1,
+    successThreshold: 1,
+    resetTimeoutMs: 1000,
+  }
+
+  it('should read time from the injected clock', () => {
+    const clock = new ManualClock(5000)
+    const breaker = new CircuitBreaker({ ...options, clock })
+    breaker.recordFailure()
+    expect(breaker.getState().openedAt).toBe(5000)
+    clock.advance(999)
+    expect(() => breaker.assertCanExecute()).toThrow(expect.objectContaining({ retryAfterMs: 1 }))
+    clock.advance(1)
+    breaker.assertCanExecute()
+    expect(breaker.isHalfOpen()).toBe(true)
+  })
+
+  it('should move to HALF_OPEN on a clock timer with autoHalfOpen', () => {
+    const clock = new ManualClock()
+    const reasons: string[] = []
+    const breaker = new CircuitBreaker({ ...options, clock, autoHalfOpen: true }, 'test', {
+      onStateChange: (_prev, _next, meta) => reasons.push(meta.reason),
+    })
+    breaker.recordFailure()
+    expect(clock.pendingTimers).toBe(1)
+    clock.advance(1000)
+    expect(breaker.isHalfOpen()).toBe(true)
+    expect(reasons).toEqual(['FAILURE_THRESHOLD', 'RESET_TIMEOUT_ELAPSED'])
+  })
+
+  it('should drop the HALF_OPEN timer once the circuit leaves OPEN', () => {
+    const clock = new ManualClock()
+    const breaker = new CircuitBreaker({ ...options, clock, autoHalfOpen: true })
+    breaker.recordFailure()
+    breaker.reset()
+    expect(clock.pendingTimers).toBe(0)
+    breaker.forceOpen()
+    expect(clock.pendingTimers).toBe(0)
+  })
+
+  it('should cancel the HALF_OPEN timer on dispose and keep the state', () => {
+    const clock = new ManualClock()
+    const breaker = new CircuitBreaker({ ...options, clock, autoHalfOpen: true })
+    breaker.recordFailure()
+    breaker.dispose()
+    expect(clock.pendingTimers).toBe(0)
+    clock.advance(1000)
+    expect(breaker.isOpen()).toBe(true)
+    breaker.assertCanExecute()
+    expect(breaker.isHalfOpen()).toBe(true)
+    breaker.reset()
+    breaker.recordFailure()
+    expect(clock.pendingTimers).toBe(1)
+  })
+
+  it('should not keep the process alive with the system HALF_OPEN timer', () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+    const breaker = new CircuitBreaker({ ...options, resetTimeoutMs: 60_000, autoHalfOpen: true })
+    breaker.recordFailure()
+    const timer = setTimeoutSpy.mock.results[0]?.value as NodeJS.Timeout
+    setTimeoutSpy.mockRestore()
+    expect(timer.hasRef()).toBe(false)
+    breaker.dispose()
+  })
+
+  it('should extend but never shorten the OPEN period with holdOpen', () => {
+    const clock = new ManualClock()
+    const breaker = new CircuitBreaker({ ...options, clock })
+    breaker.recordFailure()
+    clock.advance(500)
+    breaker.holdOpen(100)
+    expect(breaker.getState().resetTimeoutMs).toBeUndefined()
+    breaker.holdOpen(2000)
+    expect(breaker.getState().resetTimeoutMs).toBe(2500)
+    clock.advance(1999)
+    expect(() => breaker.assertCanExecute()).toThrow(expect.objectContaining({ retryAfterMs: 1 }))
+    clock.advance(1)
+    breaker.assertCanExecute()
+    expect(breaker.isHalfOpen()).toBe(true)
+  })
+})
+
+describe('InMemoryCircuitBreaker - sliding window', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should open when the failure rate over the last N calls reaches the threshold', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 4,
+        failureRateThreshold: 50,
+        minimumNumberOfCalls: 4,
+      },
+    })
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    expect(breaker.isClosed()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.isOpen()).toBe(true)
+    expect(breaker.getState().window).toBeUndefined()
+  })
+
+  it('should not open before minimumNumberOfCalls is reached', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 10,
+        failureRateThreshold: 50,
+        minimumNumberOfCalls: 3,
+      },
+    })
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.isClosed()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should keep only the last N calls in a COUNT_BASED window', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 3,
+        failureRateThreshold: 100,
+        minimumNumberOfCalls: 3,
+      },
+    })
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.isClosed()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should expose window contents in the state', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 5,
+        failureRateThreshold: 50,
+        minimumNumberOfCalls: 5,
+      },
+    })
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    const window = breaker.getState().window ?? []
+    expect(window.length).toBe(2)
+    expect(window.map(bucket => bucket.failures)).toEqual([0, 1])
+  })
+
+  it('should only count calls within a TIME_BASED window', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'TIME_BASED',
+        size: 10_000,
+        failureRateThreshold: 50,
+        minimumNumberOfCalls: 2,
+      },
+    })
+    breaker.recordFailure()
+    vi.setSystemTime(11_000)
+    breaker.recordSuccess()
+    breaker.recordSuccess()
+    expect(breaker.isClosed()).toBe(true)
+    breaker.recordFailure()
+    breaker.recordFailure()
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should aggregate calls per bucket in a TIME_BASED window', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'TIME_BASED',
+        size: 60_000,
+        failureRateThreshold: 90,
+        minimumNumberOfCalls: 10,
+      },
+    })
+    breaker.recordSuccess()
+    breaker.recordFailure()
+    vi.setSystemTime(1500)
+    breaker.recordSuccess()
+    expect(breaker.getState().window).toEqual([
+      { startedAt: 0, calls: 2, failures: 1, slowCalls: 0 },
+      { startedAt: 1000, calls: 1, failures: 0, slowCalls: 0 },
+    ])
+  })
+  it('should count slow successes toward the slow call rate', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 4,
+        failureRateThreshold: 100,
+        minimumNumberOfCalls: 4,
+        slowCallThresholdMs: 500,
+        slowCallRateThreshold: 50,
+      },
+    })
+    breaker.recordSuccess({ durationMs: 10 })
+    breaker.recordSuccess({ durationMs: 600 })
+    breaker.recordSuccess({ durationMs: 10 })
+    expect(breaker.isClosed()).toBe(true)
+    breaker.recordSuccess({ durationMs: 500 })
+    expect(breaker.isOpen()).toBe(true)
+  })
+})
+
+describe('InMemoryCircuitBreaker - half-open trial calls', () => {
+  let breaker: CircuitBreaker
+
+  beforeEach(() => {
+    breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 2,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 2,
+    })
+    breaker.recordFailure()
+    const breakerWithState = breaker as unknown as { state: { openedAt?: number } }
+    breakerWithState.state.openedAt = Date.now() - 1001
+  })
+
+  it('should admit at most halfOpenMaxCalls in-flight trial calls', () => {
+    breaker.acquire()
+    breaker.acquire()
+    expect(breaker.isHalfOpen()).toBe(true)
+    expect(breaker.getState().halfOpenCalls).toBe(2)
+    expect(() => breaker.acquire()).toThrow(Errors.CircuitOpenError)
+  })
+
+  it('should free a trial slot on release', () => {
+    breaker.acquire()
+    breaker.acquire()
+    breaker.recordSuccess()
+    breaker.release()
+    expect(breaker.getState().halfOpenCalls).toBe(1)
+    expect(() => breaker.acquire()).not.toThrow()
+  })
+
+  it('should discard the in-flight count when leaving HALF_OPEN', () => {
+    breaker.acquire()
+    breaker.recordFailure()
+    breaker.release()
+    expect(breaker.isOpen()).toBe(true)
+    expect(breaker.getState().halfOpenCalls).toBeUndefined()
+  })
+
+  it('should free trial slots that are never released once they expire', () => {
+    const clock = new ManualClock()
+    const probed = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 1,
+      halfOpenSlotTtlMs: 5000,
+      clock,
+    })
+    probed.recordFailure()
+    clock.advance(1000)
+    probed.acquire()
+    clock.advance(4999)
+    expect(() => probed.acquire()).toThrow(Errors.CircuitOpenError)
+    clock.advance(1)
+    expect(() => probed.acquire()).not.toThrow()
+    expect(probed.getState()).toMatchObject({ halfOpenCalls: 1, halfOpenCallsExpireAt: 11_000 })
+  })
+
+  it('should ignore releases of slots taken in an earlier HALF_OPEN period', () => {
+    const clock = new ManualClock()
+    const probed = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 2,
+      clock,
+    })
+    probed.recordFailure()
+    clock.advance(1000)
+    const stale = probed.acquire()
+    probed.recordFailure()
+    clock.advance(1000)
+    const current = probed.acquire()
+    expect(current).not.toBe(stale)
+    probed.release(stale)
+    expect(probed.getState().halfOpenCalls).toBe(1)
+    probed.release(current)
+    expect(probed.getState().halfOpenCalls).toBe(0)
+  })
+})
+
+describe('InMemoryCircuitBreaker - reset timeout backoff', () => {
+  let breaker: CircuitBreaker
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      backoff: { multiplier: 2, maxResetTimeoutMs: 3000 },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  const failProbe = (waitMs: number) => {
+    vi.advanceTimersByTime(waitMs)
+    breaker.assertCanExecute()
+    breaker.recordFailure()
+  }
+
+  it('should grow the reset timeout on each failed HALF_OPEN trial', () => {
+    breaker.recordFailure()
+    expect(breaker.getState()).toMatchObject({ consecutiveTrips: 0, resetTimeoutMs: 1000 })
+    failProbe(1000)
+    expect(breaker.getState()).toMatchObject({ consecutiveTrips: 1, resetTimeoutMs: 2000 })
+    vi.advanceTimersByTime(1000)
+    expect(() => breaker.assertCanExecute()).toThrow(Errors.CircuitOpenError)
+    failProbe(1000)
+    expect(breaker.getState()).toMatchObject({ consecutiveTrips: 2, resetTimeoutMs: 3000 })
+  })
+
+  it('should reset the backoff once the circuit recovers to CLOSED', () => {
+    breaker.recordFailure()
+    failProbe(1000)
+    vi.advanceTimersByTime(2000)
+    breaker.assertCanExecute()
+    breaker.recordSuccess()
+    expect(breaker.getState()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+    breaker.recordFailure()
+    expect(breaker.getState()).toMatchObject({ consecutiveTrips: 0, resetTimeoutMs: 1000 })
+  })
+
+  it('should spread the reset timeout by the configured jitter', () => {
+    const jittered = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      backoff: { multiplier: 2, maxResetTimeoutMs: 10_000, jitter: 0.5 },
+    })
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    jittered.recordFailure()
+    expect(jittered.getState().resetTimeoutMs).toBe(500)
+  })
 })
@@ -1,4 +1,24 @@
-import type { CircuitBreakerHooks, CircuitBreakerOptions, CircuitBreakerState } from '@/types'
+import { computeResetTimeout } from '@/backoff'
+import type { Clock, TimerHandle } from '@/clock'
+import { systemClock } from '@/clock'
+import { Errors } from '@/errors'
+import { callHook } from '@/hooks'
+import { appendToWindow, exceedsThresholds, isSlowCall } from '@/sliding-window'
+import type {
+  CallClassification,
+  CallMetadata,
+  CircuitBreakerEvent,
+  CircuitBreakerHookName,
+  CircuitBreakerHooks,
+  CircuitBreakerOptions,
+  CircuitBreakerOverride,
+  CircuitBreakerState,
+  CircuitBreakerStatus,
+  FallbackReason,
+  OverrideOptions,
+  SlidingWindowOptions,
+  StateChangeReason,
+} from '@/types'
 
 /**
  * Implements the core logic for a stateless, in-memory circuit breaker.
@@ -11,6 +31,10 @@ export class CircuitBreaker {
     successCount: 0,
   }
   protected readonly hooks?: CircuitBreakerHooks
+  private readonly listeners = new Set<CircuitBreakerHooks>()
+  private halfOpenTimer?: TimerHandle
+  /** Source of time and timers used by the breaker */
+  public readonly clock: Clock
 
   /**
    * @param options Circuit breaker configuration options
@@ -23,122 +47,512 @@ export class CircuitBreaker {
     hooks?: CircuitBreakerHooks,
   ) {
     this.hooks = hooks
+    this.clock = options.clock ?? systemClock
+  }
+
+  /**
+   * Registers additional hooks, called after the constructor hooks, such as a metrics collector.
+   * @param hooks The hooks to register
+   * @returns A function that unregisters the hooks
+   */
+  public subscribe(hooks: CircuitBreakerHooks): () => void {
+    this.listeners.add(hooks)
+    return () => {
+      this.listeners.delete(hooks)
+    }
+  }
+
+  /**
+   * Calls a hook on the constructor hooks and on every subscriber.
+   * Hooks never break the breaker: exceptions and rejections of async hooks are
+   * reported to onHookError, and pending promises are handed to waitUntil.
+   * @param event The hook to call
+   * @param args The hook arguments
+   */
+  protected emit<E extends CircuitBreakerHookName>(
+    event: E,
+    ...args: Parameters<NonNullable<CircuitBreakerHooks[E]>>
+  ): void {
+    for (const hooks of [this.hooks, ...this.listeners]) {
+      if (!hooks) continue
+      const hook = hooks[event] as ((...params: typeof args) => unknown) | undefined
+      callHook(hooks, event, hook, args, this.name)
+    }
+  }
+
+  /**
+   * Builds the payload shared by every lifecycle event.
+   * @param now Timestamp of the event
+   */
+  private event(now: number): CircuitBreakerEvent {
+    return { name: this.name, timestamp: now, state: { ...this.state } }
   }
 
   /**
    * Replace the current state with a new state object (immutable update).
    * @param next The new state to set
+   * @param reason Why the state changed
+   * @param now Timestamp of the change
    */
-  private setState(next: CircuitBreakerState): void {
+  protected setState(
+    next: CircuitBreakerState,
+    reason: StateChangeReason,
+    now = this.clock.now(),
+  ): void {
     const prev = this.state
     this.state = { ...next }
-    this.hooks?.onStateChange?.(prev, this.state, { name: this.name })
+    this.scheduleHalfOpen()
+    this.emit('onStateChange', prev, { ...this.state }, { name: this.name, reason, timestamp: now })
+  }
+
+  /**
+   * Adopts an externally sourced state, such as one loaded from storage,
+   * without reporting it as a transition.
+   * @param next The state to adopt
+   */
+  protected replaceState(next: CircuitBreakerState): void {
+    this.state = { ...next }
+    this.scheduleHalfOpen()
+  }
+
+  /**
+   * Adopts a state published by another instance of this breaker, such as another thread,
+   * reporting the transition with reason SYNCED.
+   * @param state The state to adopt
+   */
+  public adoptState(state: CircuitBreakerState): void {
+    this.setState(state, 'SYNCED')
   }
 
   /**
    * Returns a snapshot of the current state (immutable).
+   * An override whose duration has elapsed is expired first, so reads never report it.
    * @returns A copy of the current state
    */
   public getState(): CircuitBreakerState {
-    return { ...this.state }
+    return { ...this.current() }
+  }
+
+  /**
+   * The current state, after expiring an override whose duration has elapsed.
+   */
+  private current(): CircuitBreakerState {
+    this.expireOverride(this.clock.now())
+    return this.state
   }
 
   /**
    * Throws if the circuit is open and not ready to retry.
    * Transitions to HALF_OPEN if timeout has elapsed.
-   * @throws Error if the circuit is open and not ready
+   * @throws CircuitOpenError if the circuit is open and not ready
    */
   public assertCanExecute(): void {
-    try {
-      if (this.isOpen()) {
-        if (
-          this.state.openedAt &&
-          Date.now() - this.state.openedAt >= this.options.resetTimeoutMs
-        ) {
-          this.setState({
-            ...this.state,
-            status: 'HALF_OPEN',
-            successCount: 0,
-            failureCount: 0,
-          })
-          return
-        }
-        throw new Error('Circuit breaker is open')
-      }
-    } catch (err) {
-      this.hooks?.onError?.(err, { name: this.name, operation: 'assertCanExecute' })
-      throw err
+    this.checkOpen()
+    if (this.isHalfOpen()) this.emit('onHalfOpenProbe', this.event(this.clock.now()))
+  }
+
+  /**
+   * Acquires permission to execute a call, like assertCanExecute, but admits at most
+   * `halfOpenMaxCalls` in-flight trial calls while HALF_OPEN.
+   * Every acquire must be paired with release() once the call settles; slots that are never
+   * released count as free again after `halfOpenSlotTtlMs`.
+   * @returns The HALF_OPEN period of the slot taken, to pass to release(), or undefined
+   * @throws CircuitOpenError if the circuit is open or no trial slot is free
+   */
+  public acquire(): number | undefined {
+    this.checkOpen()
+    if (!this.isHalfOpen()) return undefined
+    const now = this.clock.now()
+    const max = this.options.halfOpenMaxCalls
+    if (max !== undefined) {
+      const inFlight = this.inFlightTrialCalls(now)
+      if (inFlight >= max) this.reject('acquire', 0, now)
+      const ttlMs = this.options.halfOpenSlotTtlMs ?? this.resetTimeoutMs()
+      this.setState(
+        { ...this.state, halfOpenCalls: inFlight + 1, halfOpenCallsExpireAt: now + ttlMs },
+        'PROBE_SLOT_CHANGED',
+        now,
+      )
     }
+    this.emit('onHalfOpenProbe', this.event(now))
+    return max === undefined ? undefined : this.state.openedAt
+  }
+
+  /**
+   * Releases a trial slot taken by acquire().
+   * No-op outside HALF_OPEN, since leaving HALF_OPEN discards the in-flight count, and for
+   * slots taken in an earlier HALF_OPEN period.
+   * @param period The HALF_OPEN period returned by acquire()
+   */
+  public release(period?: number): void {
+    if (!this.isHalfOpen() || (period !== undefined && period !== this.state.openedAt)) return
+    const now = this.clock.now()
+    const inFlight = this.inFlightTrialCalls(now)
+    if (!inFlight) return
+    this.setState({ ...this.state, halfOpenCalls: inFlight - 1 }, 'PROBE_SLOT_CHANGED', now)
+  }
+
+  /**
+   * Counts the in-flight trial calls, dropping them once their slots expired.
+   * @param now Current timestamp in milliseconds
+   */
+  private inFlightTrialCalls(now: number): number {
+    const { halfOpenCalls = 0, halfOpenCallsExpireAt } = this.state
+    return halfOpenCallsExpireAt !== undefined && now >= halfOpenCallsExpireAt ? 0 : halfOpenCalls
   }
 
   /**
    * Records a successful execution.
    * Transitions to CLOSED if enough successes in HALF_OPEN.
+   * Feeds the sliding window while CLOSED when one is configured, where a slow
+   * success can still open the circuit.
+   * @param call Optional call metadata, such as its duration
    */
-  public recordSuccess(): void {
+  public recordSuccess(call?: CallMetadata): void {
+    const now = this.clock.now()
+    let reset = false
+    this.classify('SUCCESS', call)
+    this.expireOverride(now)
     try {
-      if (this.isHalfOpen()) {
+      if (this.state.override !== undefined) {
+        // Pinned by an operator: the outcome is only reported to the hooks
+      } else if (this.isClosed() && this.options.slidingWindow) {
+        this.recordInWindow(this.options.slidingWindow, false, now, call)
+      } else if (this.isHalfOpen()) {
         const successCount = this.state.successCount + 1
-        if (successCount >= this.options.successThreshold) {
-          this.setState({
-            status: 'CLOSED',
-            failureCount: 0,
-            successCount: 0,
-            openedAt: undefined,
-          })
-          return
-        }
-        this.setState({ ...this.state, successCount })
+        reset = successCount >= this.options.successThreshold
+        this.setState(
+          reset
+            ? { status: 'CLOSED', failureCount: 0, successCount: 0, openedAt: undefined }
+            : { ...this.state, successCount },
+          reset ? 'PROBES_SUCCEEDED' : 'CALL_RECORDED',
+          now,
+        )
       }
     } catch (err) {
-      this.hooks?.onError?.(err, { name: this.name, operation: 'recordSuccess' })
+      this.emit('onError', err, { name: this.name, operation: 'recordSuccess' })
       throw err
     }
+    this.emit('onSuccess', { ...this.event(now), ...call })
+    if (reset) this.emit('onReset', this.event(now))
   }
 
   /**
    * Records a failed execution.
-   * Transitions to OPEN if enough failures in CLOSED or HALF_OPEN.
+   * Transitions to OPEN if enough failures in CLOSED or HALF_OPEN,
+   * or if a sliding window rate threshold is reached while CLOSED.
+   * @param call Optional call metadata, such as its duration
    */
-  public recordFailure(): void {
+  public recordFailure(call?: CallMetadata): void {
+    const now = this.clock.now()
+    this.classify('FAILURE', call)
+    this.expireOverride(now)
     try {
-      if (this.isClosed() || this.isHalfOpen()) {
+      if (this.state.override !== undefined) {
+        // Pinned by an operator: the outcome is only reported to the hooks
+      } else if (this.isClosed() && this.options.slidingWindow) {
+        this.recordInWindow(this.options.slidingWindow, true, now, call)
+      } else if (this.isClosed() || this.isHalfOpen()) {
         const failureCount = this.state.failureCount + 1
         if (failureCount >= this.options.failureThreshold) {
-          this.setState({
-            status: 'OPEN',
-            failureCount: 0,
-            successCount: 0,
-            openedAt: Date.now(),
-          })
-          return
+          this.open(now)
+        } else {
+          this.setState({ ...this.state, failureCount }, 'CALL_RECORDED', now)
         }
-        this.setState({ ...this.state, failureCount })
       }
     } catch (err) {
-      this.hooks?.onError?.(err, { name: this.name, operation: 'recordFailure' })
+      this.emit('onError', err, { name: this.name, operation: 'recordFailure' })
       throw err
     }
+    this.emit('onFailure', { ...this.event(now), ...call })
+  }
+
+  /**
+   * Keeps an OPEN circuit from letting a trial call through for at least `delayMs`, e.g. to
+   * honour an upstream `Retry-After`. Never shortens the current OPEN period, and leaves
+   * circuits that are not OPEN or pinned by an override untouched.
+   * @param delayMs Milliseconds from now before the next trial call
+   */
+  public holdOpen(delayMs: number): void {
+    const now = this.clock.now()
+    const { openedAt, override } = this.state
+    if (!this.isOpen() || override !== undefined || openedAt === undefined) return
+    const resetTimeoutMs = now + delayMs - openedAt
+    if (resetTimeoutMs <= this.resetTimeoutMs()) return
+    this.setState({ ...this.state, resetTimeoutMs }, 'RETRY_AFTER', now)
+  }
+
+  /**
+   * Pins the circuit OPEN, rejecting every call until the override expires or reset() is called,
+   * e.g. during maintenance of the protected dependency.
+   * @param options Optional duration of the override
+   */
+  public forceOpen(options: OverrideOptions = {}): void {
+    this.applyOverride('FORCED_OPEN', 'OPEN', options)
+  }
+
+  /**
+   * Pins the circuit CLOSED so failures never trip it, e.g. for a known false positive.
+   * @param options Optional duration of the override
+   */
+  public forceClose(options: OverrideOptions = {}): void {
+    this.applyOverride('FORCED_CLOSED', 'CLOSED', options)
+  }
+
+  /**
+   * Turns the breaker into a pass-through. Calls are never rejected, and their outcomes are
+   * still reported to the hooks, so metrics keep flowing.
+   * @param options Optional duration of the override
+   */
+  public disable(options: OverrideOptions = {}): void {
+    this.applyOverride('DISABLED', 'CLOSED', options)
+  }
+
+  /**
+   * Returns the breaker to a fresh CLOSED state, clearing any override, counters and backoff.
+   */
+  public reset(): void {
+    const now = this.clock.now()
+    this.setState({ status: 'CLOSED', failureCount: 0, successCount: 0 }, 'MANUAL_RESET', now)
+    this.emit('onReset', this.event(now))
+  }
+
+  /**
+   * Cancels the pending `autoHalfOpen` timer, for a breaker that is no longer used. The state
+   * is kept; a later trip schedules a new timer.
+   */
+  public dispose(): void {
+    if (this.halfOpenTimer === undefined) return
+    this.clock.clearTimeout(this.halfOpenTimer)
+    this.halfOpenTimer = undefined
+  }
+
+  /**
+   * Records an execution that counts neither as success nor as failure.
+   * Leaves the state untouched and only reports the classification to the hooks.
+   * @param call Optional call metadata, such as the ignored error
+   */
+  public recordIgnored(call?: CallMetadata): void {
+    this.classify('IGNORED', call)
+  }
+
+  /**
+   * Reports that a fallback value was served instead of the call's own result.
+   * Leaves the state untouched.
+   * @param reason Why the fallback was invoked
+   * @param error The error that triggered the fallback
+   */
+  public recordFallback(reason: FallbackReason, error: unknown): void {
+    this.emit('onFallback', reason, { name: this.name, error })
+  }
+
+  /**
+   * Reports how a call was classified to the hooks.
+   */
+  private classify(classification: CallClassification, call?: CallMetadata): void {
+    this.emit('onCallClassified', classification, { name: this.name, ...call })
+  }
+
+  /**
+   * Appends a call outcome to the sliding window, opening the circuit if the
+   * failure rate or slow call rate threshold is reached.
+   * @param window Sliding window configuration
+   * @param failure Whether the call failed
+   * @param now Timestamp of the call
+   * @param call Optional call metadata, such as its duration
+   */
+  private recordInWindow(
+    window: SlidingWindowOptions,
+    failure: boolean,
+    now: number,
+    call?: CallMetadata,
+  ): void {
+    const slow = isSlowCall(window, call?.durationMs)
+    const next = appendToWindow(this.state.window ?? [], window, { failure, slow }, now)
+    if ((failure || slow) && exceedsThresholds(next, window, now)) {
+      this.open(now)
+      return
+    }
+    this.setState({ ...this.state, window: next }, 'CALL_RECORDED', now)
+  }
+
+  /**
+   * Replaces the state with a pinned one.
+   * @param override The override to apply
+   * @param status The status the override pins
+   * @param options Optional duration of the override
+   */
+  private applyOverride(
+    override: CircuitBreakerOverride,
+    status: CircuitBreakerStatus,
+    options: OverrideOptions,
+  ): void {
+    const now = this.clock.now()
+    this.setState(
+      {
+        status,
+        failureCount: 0,
+        successCount: 0,
+        openedAt: status === 'OPEN' ? now : undefined,
+        override,
+        overrideExpiresAt: options.durationMs === undefined ? undefined : now + options.durationMs,
+      },
+      override,
+      now,
+    )
+  }
+
+  /**
+   * Resets the breaker to CLOSED once its override has expired.
+   * @param now Current timestamp in milliseconds
+   */
+  private expireOverride(now: number): void {
+    const { override, overrideExpiresAt } = this.state
+    if (override === undefined || overrideExpiresAt === undefined || now < overrideExpiresAt) return
+    this.setState({ status: 'CLOSED', failureCount: 0, successCount: 0 }, 'OVERRIDE_EXPIRED', now)
+  }
+
+  /**
+   * Moves an OPEN circuit to HALF_OPEN once the reset timeout elapsed, and rejects the call otherwise.
+   * A forced-open circuit rejects until its override expires.
+   * @throws CircuitOpenError if the circuit is open and not ready
+   */
+  private checkOpen(): void {
+    const now = this.clock.now()
+    this.expireOverride(now)
+    if (!this.isOpen()) return
+    const { override, overrideExpiresAt } = this.state
+    if (override === 'FORCED_OPEN') {
+      const retryAfterMs =
+        overrideExpiresAt === undefined ? this.resetTimeoutMs() : overrideExpiresAt - now
+      this.reject('assertCanExecute', retryAfterMs, now)
+    }
+    if (this.tryHalfOpen(now)) return
+    this.reject('assertCanExecute', this.retryAfterMs(now), now)
+  }
+
+  /**
+   * Moves an OPEN circuit to HALF_OPEN if its reset timeout elapsed and no override pins it.
+   * @param now Current timestamp in milliseconds
+   * @returns Whether the circuit moved to HALF_OPEN
+   */
+  private tryHalfOpen(now: number): boolean {
+    const { openedAt, override } = this.state
+    if (!this.isOpen() || override !== undefined || openedAt === undefined) return false
+    if (now - openedAt < this.resetTimeoutMs()) return false
+    this.setState(
+      { ...this.state, status: 'HALF_OPEN', successCount: 0, failureCount: 0 },
+      'RESET_TIMEOUT_ELAPSED',
+      now,
+    )
+    return true
+  }
+
+  /**
+   * With `autoHalfOpen`, schedules the HALF_OPEN transition of an OPEN circuit on the clock,
+   * replacing any earlier timer, which is dropped once the circuit leaves OPEN. Node timers
+   * are unref'd so an OPEN breaker never keeps the process alive.
+   */
+  private scheduleHalfOpen(): void {
+    if (!this.options.autoHalfOpen) return
+    this.dispose()
+    const { status, openedAt, override } = this.state
+    if (status !== 'OPEN' || override !== undefined || openedAt === undefined) return
+    const delayMs = Math.max(0, openedAt + this.resetTimeoutMs() - this.clock.now())
+    this.halfOpenTimer = this.clock.setTimeout(() => {
+      this.halfOpenTimer = undefined
+      this.tryHalfOpen(this.clock.now())
+    }, delayMs)
+    unrefTimer(this.halfOpenTimer)
+  }
+
+  /**
+   * Reports a rejected call to the hooks and throws.
+   * @param operation The operation that rejected the call
+   * @param retryAfterMs Milliseconds until a trial call may be let through
+   * @param now Timestamp of the rejection
+   * @throws CircuitOpenError always
+   */
+  private reject(operation: string, retryAfterMs: number, now: number): never {
+    const error = new Errors.CircuitOpenError(this.name, this.state.openedAt, retryAfterMs)
+    this.emit('onError', error, { name: this.name, operation })
+    this.emit('onRejected', { ...this.event(now), error, retryAfterMs })
+    throw error
+  }
+
+  /**
+   * Milliseconds until an OPEN circuit lets a trial call through.
+   * @param now Current timestamp in milliseconds
+   */
+  private retryAfterMs(now: number): number {
+    if (this.state.openedAt === undefined) return this.resetTimeoutMs()
+    return Math.max(0, this.state.openedAt + this.resetTimeoutMs() - now)
+  }
+
+  /**
+   * Reset timeout of the current OPEN period, which grows with backoff.
+   */
+  private resetTimeoutMs(): number {
+    return this.state.resetTimeoutMs ?? this.options.resetTimeoutMs
+  }
+
+  /**
+   * Transitions to OPEN, discarding counters and window contents.
+   * With backoff, a failed HALF_OPEN trial counts as a consecutive trip and grows the timeout.
+   * @param now Timestamp the circuit opened at
+   */
+  private open(now: number): void {
+    const next: CircuitBreakerState = {
+      status: 'OPEN',
+      failureCount: 0,
+      successCount: 0,
+      openedAt: now,
+    }
+    const reason = this.isHalfOpen() ? 'PROBE_FAILED' : 'FAILURE_THRESHOLD'
+    const { backoff } = this.options
+    if (!backoff) {
+      this.setState(next, reason, now)
+      return
+    }
+    const consecutiveTrips = this.isHalfOpen() ? (this.state.consecutiveTrips ?? 0) + 1 : 0
+    this.setState(
+      {
+        ...next,
+        consecutiveTrips,
+        resetTimeoutMs: computeResetTimeout(this.options.resetTimeoutMs, backoff, consecutiveTrips),
+      },
+      reason,
+      now,
+    )
   }
 
   /**
    * Returns true if the circuit is OPEN.
    */
   public isOpen(): boolean {
-    return this.state.status === 'OPEN'
+    return this.current().status === 'OPEN'
   }
 
   /**
    * Returns true if the circuit is CLOSED.
    */
   public isClosed(): boolean {
-    return this.state.status === 'CLOSED'
+    return this.current().status === 'CLOSED'
   }
 
   /**
    * Returns true if the circuit is HALF_OPEN.
    */
   public isHalfOpen(): boolean {
-    return this.state.status === 'HALF_OPEN'
+    return this.current().status === 'HALF_OPEN'
   }
 }
+
+/**
+ * Lets the process exit while the timer is pending, for timer handles that support it, such
+ * as those of Node's setTimeout.
+ */
+function unrefTimer(handle: TimerHandle): void {
+  const { unref } = (handle ?? {}) as { unref?: () => void }
+  if (typeof unref === 'function') unref.call(handle)
+}
@@ -0,0 +1,48 @@
+import { ManualClock } from '@/clock'
+import { describe, expect, it } from 'vitest'
+
+describe('ManualClock', () => {
+  it('should only move when advanced', () => {
+    const clock = new ManualClock(1000)
+    expect(clock.now()).toBe(1000)
+    clock.advance(250)
+    expect(clock.now()).toBe(1250)
+  })
+
+  it('should fire due timers in order at their due time', () => {
+    const clock = new ManualClock()
+    const fired: Array<[string, number]> = []
+    clock.setTimeout(() => fired.push(['b', clock.now()]), 200)
+    clock.setTimeout(() => fired.push(['a', clock.now()]), 100)
+    clock.setTimeout(() => fired.push(['c', clock.now()]), 500)
+    clock.advance(300)
+    expect(fired).toEqual([
+      ['a', 100],
+      ['b', 200],
+    ])
+    expect(clock.pendingTimers).toBe(1)
+  })
+
+  it('should fire timers scheduled by other timers within the same advance', () => {
+    const clock = new ManualClock()
+    const fired: number[] = []
+    clock.setTimeout(() => {
+      fired.push(clock.now())
+      clock.setTimeout(() => fired.push(clock.now()), 50)
+    }, 50)
+    clock.advance(100)
+    expect(fired).toEqual([50, 100])
+  })
+
+  it('should not fire cleared timers', () => {
+    const clock = new ManualClock()
+    let fired = false
+    const handle = clock.setTimeout(() => {
+      fired = true
+    }, 10)
+    clock.clearTimeout(handle)
+    clock.advance(10)
+    expect(fired).toBe(false)
+    expect(clock.pendingTimers).toBe(0)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Opaque handle of a timer scheduled with a Clock.
+ */
+export type TimerHandle = unknown
+
+/**
+ * Source of time and timers, injectable so breakers, decorators and adapters can be driven
+ * deterministically in tests or aligned with a trusted time source across instances.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number
+  /** Calls `callback` once after `delayMs` milliseconds */
+  setTimeout(callback: () => void, delayMs: number): TimerHandle
+  /** Cancels a timer scheduled with setTimeout */
+  clearTimeout(handle: TimerHandle): void
+}
+
+/**
+ * Clock backed by `Date.now()` and the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+interface ManualTimer {
+  readonly id: number
+  readonly dueAt: number
+  readonly callback: () => void
+}
+
+/**
+ * Clock that only moves when told to, for deterministic tests.
+ * Timers fire synchronously, in due order, while advance() passes their due time.
+ */
+export class ManualClock implements Clock {
+  private timers: ManualTimer[] = []
+  private nextId = 1
+
+  /**
+   * @param time Initial time in milliseconds since the epoch
+   */
+  constructor(private time = 0) {}
+
+  public now(): number {
+    return this.time
+  }
+
+  public setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const timer = { id: this.nextId++, dueAt: this.time + Math.max(0, delayMs), callback }
+    this.timers.push(timer)
+    return timer.id
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle)
+  }
+
+  /**
+   * Moves time forward, firing every timer that becomes due on the way.
+   * Timers scheduled by a firing timer also fire if they are due before the target time.
+   * @param ms Milliseconds to advance by
+   */
+  public advance(ms: number): void {
+    const target = this.time + ms
+    for (;;) {
+      const due = this.timers
+        .filter(timer => timer.dueAt <= target)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0]
+      if (!due) break
+      this.clearTimeout(due.id)
+      this.time = due.dueAt
+      due.callback()
+    }
+    this.time = target
+  }
+
+  /**
+   * Number of timers that have not fired or been cleared yet.
+   */
+  public get pendingTimers(): number {
+    return this.timers.length
+  }
+}
@@ -1,7 +1,9 @@
-import { beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { CircuitBreaker } from './circuit-breaker'
+import { ManualClock } from './clock'
 import { CircuitBreakerGuard, withCircuitBreaker } from './decorator'
-import type { CircuitBreakerState } from './types'
+import { Errors } from './errors'
+import type { CallClassification, CircuitBreakerState, FallbackContext } from './types'
 
 describe('withCircuitBreaker', () => {
   let breaker: CircuitBreaker
@@ -58,6 +60,15 @@ describe('withCircuitBreaker', () => {
     await expect(wrapped()).rejects.toThrow('fail')
     await expect(wrapped()).rejects.toThrow('Circuit breaker is open')
   })
+
+  it('should reject with a CircuitOpenError while open', async () => {
+    const wrapped = withCircuitBreaker(breaker, async () => {
+      throw new Error('fail')
+    })
+    await expect(wrapped()).rejects.toThrow('fail')
+    await expect(wrapped()).rejects.toThrow('fail')
+    await expect(wrapped()).rejects.toBeInstanceOf(Errors.CircuitOpenError)
+  })
 })
 
 describe('withCircuitBreaker - hooks', () => {
@@ -139,4 +150,414 @@ describe('CircuitBreakerGuard (class method decorator)', () => {
     await expect(svc.fail()).rejects.toThrow('fail')
     await expect(svc.fail()).rejects.toThrow('Circuit breaker is open')
   })
+
+  it('should reject with a CircuitOpenError naming the breaker', async () => {
+    await expect(svc.fail()).rejects.toThrow('fail')
+    await expect(svc.succeed()).rejects.toMatchObject({
+      name: 'CircuitOpenError',
+      breakerName: 'svc',
+    })
+    expect(calls).toBe(1)
+  })
+})
+
+describe('CircuitBreakerGuard (standard decorators)', () => {
+  const options = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 }
+
+  it('should guard methods through a getter reaching a private field', async () => {
+    const breaker = new CircuitBreaker(options)
+    class Service {
+      #breaker = breaker
+      @CircuitBreakerGuard((self: Service) => self.#breaker)
+      async load(id: number): Promise<string> {
+        if (id < 0) throw new Error('fail')
+        return `item ${id}`
+      }
+    }
+    const service = new Service()
+    const loaded: string = await service.load(1)
+    expect(loaded).toBe('item 1')
+    await expect(service.load(-1)).rejects.toThrow('fail')
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should resolve typed property names', async () => {
+    class Service {
+      breaker = new CircuitBreaker(options)
+      @CircuitBreakerGuard<Service>('breaker')
+      async load(): Promise<string> {
+        return 'ok'
+      }
+    }
+    await expect(new Service().load()).resolves.toBe('ok')
+  })
+
+  it('should reject property names the class does not hold as a public breaker', async () => {
+    class Service {
+      breaker = new CircuitBreaker(options)
+      private hidden = new CircuitBreaker(options)
+      name = 'service'
+      // @ts-expect-error misspelled property name
+      @CircuitBreakerGuard('braeker')
+      async load(): Promise<string> {
+        return 'ok'
+      }
+      // @ts-expect-error private properties are not visible to the check, use a getter
+      @CircuitBreakerGuard('hidden')
+      async loadHidden(): Promise<string> {
+        return this.hidden.getState().status
+      }
+      // @ts-expect-error the property holds no breaker
+      @CircuitBreakerGuard('name')
+      async loadNamed(): Promise<string> {
+        return 'ok'
+      }
+    }
+    await expect(new Service().load()).rejects.toThrow(
+      new Errors.BreakerNotFoundError('property "braeker"'),
+    )
+  })
+
+  it('should throw BreakerNotFoundError when the source holds no breaker', async () => {
+    class Service {
+      declare breaker: CircuitBreaker
+      @CircuitBreakerGuard('breaker')
+      async load(): Promise<string> {
+        return 'ok'
+      }
+      @CircuitBreakerGuard(() => undefined as unknown as CircuitBreaker)
+      async loadFromGetter(): Promise<string> {
+        return 'ok'
+      }
+    }
+    const service = new Service()
+    await expect(service.load()).rejects.toThrow(
+      new Errors.BreakerNotFoundError('property "breaker"'),
+    )
+    await expect(service.loadFromGetter()).rejects.toThrow(
+      'No CircuitBreaker found at the breaker getter',
+    )
+  })
+})
+
+describe('withCircuitBreaker - timeouts and slow calls', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should abort the call and record a failure when it times out', async () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    let received: AbortSignal | undefined
+    const fn = (_url: string, signal?: AbortSignal) => {
+      received = signal
+      return new Promise<string>(() => {})
+    }
+    const wrapped = withCircuitBreaker(breaker, fn, { timeoutMs: 50 })
+    const pending = wrapped('https://example.com')
+    const assertion = expect(pending).rejects.toBeInstanceOf(Errors.TimeoutError)
+    await vi.advanceTimersByTimeAsync(50)
+    await assertion
+    expect(received?.aborted).toBe(true)
+    expect(received?.reason).toBeInstanceOf(Errors.TimeoutError)
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should time calls with the breaker clock', async () => {
+    const clock = new ManualClock()
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      clock,
+    })
+    const durations: Array<number | undefined> = []
+    breaker.subscribe({ onFailure: ({ durationMs }) => durations.push(durationMs) })
+    const wrapped = withCircuitBreaker(breaker, () => new Promise<string>(() => {}), {
+      timeoutMs: 50,
+    })
+    const pending = wrapped()
+    await vi.waitUntil(() => clock.pendingTimers > 0)
+    clock.advance(50)
+    await expect(pending).rejects.toBeInstanceOf(Errors.TimeoutError)
+    expect(durations).toEqual([50])
+  })
+
+  it('should resolve normally when the call finishes before the timeout', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async (value: number, _signal?: AbortSignal) => value * 2,
+      { timeoutMs: 1000 },
+    )
+    await expect(wrapped(21)).resolves.toBe(42)
+    expect(breaker.isClosed()).toBe(true)
+  })
+
+  it('should clear the timer when the call throws synchronously', async () => {
+    const clock = new ManualClock()
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      clock,
+    })
+    const wrapped = withCircuitBreaker(
+      breaker,
+      (_signal?: AbortSignal): Promise<string> => {
+        throw new Error('sync')
+      },
+      { timeoutMs: 50 },
+    )
+    await expect(wrapped()).rejects.toThrow('sync')
+    expect(clock.pendingTimers).toBe(0)
+  })
+
+  it('should pass the signal as the last parameter when optional arguments are omitted', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    const fn = async (url: string, init?: { method: string }, signal?: AbortSignal) => ({
+      url,
+      init,
+      signal,
+    })
+    const wrapped = withCircuitBreaker(breaker, fn, { timeoutMs: 1000 })
+    const result = await wrapped('https://example.com')
+    expect(result.init).toBeUndefined()
+    expect(result.signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('should open the circuit when successful calls are slow', async () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      slidingWindow: {
+        type: 'COUNT_BASED',
+        size: 2,
+        failureRateThreshold: 100,
+        minimumNumberOfCalls: 2,
+        slowCallThresholdMs: 100,
+        slowCallRateThreshold: 100,
+      },
+    })
+    const wrapped = withCircuitBreaker(
+      breaker,
+      () => new Promise<string>(resolve => setTimeout(() => resolve('ok'), 150)),
+    )
+    for (let i = 0; i < 2; i++) {
+      const pending = wrapped()
+      await vi.advanceTimersByTimeAsync(150)
+      await expect(pending).resolves.toBe('ok')
+    }
+    expect(breaker.isOpen()).toBe(true)
+  })
+
+  it('should apply timeouts to decorated methods', async () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    class Service {
+      breaker = breaker
+      async hang(): Promise<string> {
+        return new Promise<string>(() => {})
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'hang')!
+    CircuitBreakerGuard('breaker', { timeoutMs: 10 })(Service.prototype, 'hang', desc)
+    Object.defineProperty(Service.prototype, 'hang', desc)
+    const pending = new Service().hang()
+    const assertion = expect(pending).rejects.toThrow('Operation timed out after 10ms')
+    await vi.advanceTimersByTimeAsync(10)
+    await assertion
+    expect(breaker.isOpen()).toBe(true)
+  })
+})
+
+describe('withCircuitBreaker - half-open trial calls', () => {
+  it('should only let halfOpenMaxCalls probes through concurrently', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 1,
+    })
+    breaker.recordFailure()
+    const breakerWithState = breaker as unknown as { state: { openedAt?: number } }
+    breakerWithState.state.openedAt = Date.now() - 1001
+
+    let resolveProbe: (value: string) => void = () => {}
+    let calls = 0
+    const wrapped = withCircuitBreaker(breaker, () => {
+      calls++
+      return new Promise<string>(resolve => {
+        resolveProbe = resolve
+      })
+    })
+    const probe = wrapped()
+    await expect(wrapped()).rejects.toBeInstanceOf(Errors.CircuitOpenError)
+    expect(calls).toBe(1)
+    resolveProbe('ok')
+    await expect(probe).resolves.toBe('ok')
+    expect(breaker.isClosed()).toBe(true)
+  })
+})
+
+describe('withCircuitBreaker - error classification', () => {
+  class NotFoundError extends Error {}
+  let breaker: CircuitBreaker
+  let classifications: CallClassification[]
+
+  beforeEach(() => {
+    classifications = []
+    breaker = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'classified',
+      { onCallClassified: classification => classifications.push(classification) },
+    )
+  })
+
+  it('should rethrow ignored errors without counting them', async () => {
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async () => {
+        throw new NotFoundError('missing')
+      },
+      { ignoreErrors: [NotFoundError] },
+    )
+    await expect(wrapped()).rejects.toBeInstanceOf(NotFoundError)
+    expect(breaker.isClosed()).toBe(true)
+    expect(breaker.getState()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+    expect(classifications).toEqual(['IGNORED'])
+  })
+
+  it('should count errors rejected by isFailure as successes', async () => {
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async () => {
+        throw new Error('validation')
+      },
+      { isFailure: err => !(err instanceof Error && err.message === 'validation') },
+    )
+    await expect(wrapped()).rejects.toThrow('validation')
+    expect(breaker.isClosed()).toBe(true)
+    expect(classifications).toEqual(['SUCCESS'])
+  })
+
+  it('should count results matched by isResultFailure as failures', async () => {
+    const wrapped = withCircuitBreaker(breaker, async () => ({ ok: false }), {
+      isResultFailure: result => !result.ok,
+    })
+    await expect(wrapped()).resolves.toEqual({ ok: false })
+    expect(breaker.isOpen()).toBe(true)
+    expect(classifications).toEqual(['FAILURE'])
+  })
+
+  it('should report the error and duration with the classification', async () => {
+    const seen: Array<{ error?: unknown; durationMs?: number }> = []
+    const hooked = new CircuitBreaker(
+      { failureThreshold: 2, successThreshold: 1, resetTimeoutMs: 1000 },
+      'hooked',
+      { onCallClassified: (_classification, meta) => seen.push(meta) },
+    )
+    const error = new Error('boom')
+    const wrapped = withCircuitBreaker(hooked, async () => {
+      throw error
+    })
+    await expect(wrapped()).rejects.toBe(error)
+    expect(seen[0]?.error).toBe(error)
+    expect(typeof seen[0]?.durationMs).toBe('number')
+  })
+})
+
+describe('withCircuitBreaker - fallback', () => {
+  let breaker: CircuitBreaker
+  let fallbacks: Array<{ reason: string; error: unknown }>
+
+  beforeEach(() => {
+    fallbacks = []
+    breaker = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'fallback',
+      { onFallback: (reason, meta) => fallbacks.push({ reason, error: meta.error }) },
+    )
+  })
+
+  it('should serve the fallback with the original args on failure and while open', async () => {
+    const contexts: Array<FallbackContext<[string]>> = []
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async (_id: string): Promise<string> => {
+        throw new Error('fail')
+      },
+      {
+        fallback: context => {
+          contexts.push(context)
+          return `cached:${context.args[0]}`
+        },
+      },
+    )
+    await expect(wrapped('a')).resolves.toBe('cached:a')
+    await expect(wrapped('b')).resolves.toBe('cached:b')
+    expect(contexts.map(context => context.reason)).toEqual(['FAILURE', 'OPEN'])
+    expect(contexts[1]?.error).toBeInstanceOf(Errors.CircuitOpenError)
+    expect(fallbacks.map(fallback => fallback.reason)).toEqual(['FAILURE', 'OPEN'])
+  })
+
+  it('should report TIMEOUT when the call times out', async () => {
+    vi.useFakeTimers()
+    try {
+      const wrapped = withCircuitBreaker(breaker, () => new Promise<string>(() => {}), {
+        timeoutMs: 10,
+        fallback: ({ reason }) => reason,
+      })
+      const pending = wrapped()
+      await vi.advanceTimersByTimeAsync(10)
+      await expect(pending).resolves.toBe('TIMEOUT')
+      expect(breaker.isOpen()).toBe(true)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should rethrow ignored errors instead of falling back', async () => {
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async () => {
+        throw new TypeError('bad input')
+      },
+      { ignoreErrors: [TypeError], fallback: () => 'fallback' },
+    )
+    await expect(wrapped()).rejects.toBeInstanceOf(TypeError)
+    expect(fallbacks).toEqual([])
+  })
+
+  it('should serve the fallback from decorated methods', async () => {
+    class Service {
+      breaker = breaker
+      async load(): Promise<string> {
+        throw new Error('fail')
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'load')!
+    CircuitBreakerGuard('breaker', { fallback: () => 'degraded' })(Service.prototype, 'load', desc)
+    Object.defineProperty(Service.prototype, 'load', desc)
+    await expect(new Service().load()).resolves.toBe('degraded')
+    expect(fallbacks.map(fallback => fallback.reason)).toEqual(['FAILURE'])
+  })
 })
@@ -1,69 +1,133 @@
-import type { CircuitBreaker } from '@/circuit-breaker'
+import { CircuitBreaker } from '@/circuit-breaker'
+import { execute, guardMethod, invoke, resolveBreaker } from '@/execution'
+import type { RegistryBreakerReference } from '@/registry'
+import type { CircuitBreakerCallOptions, TimedCallOptions, UntimedCallOptions } from '@/types'
 
 /**
  * Decorator to wrap an async function with circuit breaker logic.
- * Calls assertCanExecute before execution, records success/failure after.
+ * Acquires permission before execution, records success/failure and releases after.
+ *
+ * When `options.timeoutMs` is set, the function must take an AbortSignal as its last
+ * parameter, which receives the signal even when optional arguments before it are omitted.
+ * Those must be declared optional (`opts?: O`), not with a default value (`opts = {}`),
+ * since the signal's position is taken from `fn.length`. The signal is aborted and a
+ * TimeoutError is thrown (and recorded as a failure) if the call does not settle in time.
+ *
+ * Errors and results are classified with `isFailure`, `ignoreErrors` and `isResultFailure`;
+ * ignored errors are rethrown without counting as success or failure.
+ * With `options.fallback`, rejected, timed out and failed calls resolve to the fallback value.
  *
  * @template Args - Argument types of the wrapped function
  * @template R - Return type of the wrapped function
  * @param breaker The CircuitBreaker instance
  * @param fn The async function to wrap
+ * @param options Optional per-call options such as a timeout or fallback
  * @returns A function that applies circuit breaker logic to the original function
  */
+export function withCircuitBreaker<Args extends unknown[], R>(
+  breaker: CircuitBreaker,
+  fn: (...args: [...Args, AbortSignal]) => Promise<R>,
+  options: TimedCallOptions<CircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
 export function withCircuitBreaker<Args extends unknown[], R>(
   breaker: CircuitBreaker,
   fn: (...args: Args) => Promise<R>,
+  options?: UntimedCallOptions<CircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
+export function withCircuitBreaker<Args extends unknown[], R>(
+  breaker: CircuitBreaker,
+  fn: (...args: Args) => Promise<R>,
+  options: CircuitBreakerCallOptions<R, Args> = {},
 ): (...args: Args) => Promise<R> {
-  return async (...args: Args): Promise<R> => {
-    breaker.assertCanExecute()
-    try {
-      const result = await fn(...args)
-      breaker.recordSuccess()
-      return result
-    } catch (err) {
-      breaker.recordFailure()
-      throw err
-    }
-  }
+  return async (...args: Args): Promise<R> =>
+    execute(breaker, signal => invoke(fn, undefined, args, signal), options, args)
 }
 
 /**
- * Class method decorator for circuit breaker protection.
- *
- * Usage (with experimentalDecorators enabled in tsconfig):
+ * Where a method decorator finds its breaker: the name of an instance property, a getter
+ * receiving the instance, or a registry entry. Property names are checked against the
+ * decorated class and must be public; a getter also reaches private fields, e.g.
+ * `(self: MyService) => self.#breaker`.
+ */
+export type BreakerSource<This = unknown, B extends CircuitBreaker = CircuitBreaker> =
+  | PropertyName<This>
+  | ((instance: This) => B)
+  | RegistryBreakerReference<B>
+
+/**
+ * A property name of `This`, or any name when `This` is unknown. Never used to infer `This`,
+ * as private fields are not part of `keyof`.
+ */
+export type PropertyName<This> = unknown extends This ? string : keyof NoInfer<This> & string
+
+/**
+ * The instance type a property name requires of the decorated class: one holding a `V` at `K`.
+ * Names only known as `string` are not checked.
+ */
+export type PropertyHolder<K extends string, V> = string extends K ? unknown : { [P in K]: V }
+
+/**
+ * A method decorator accepted both as a standard (TC39) decorator and with
+ * `experimentalDecorators`. Either way the decorated method keeps its signature.
+ */
+export interface MethodGuard<This = unknown> {
+  <T extends This, Args extends unknown[], R>(
+    method: (this: T, ...args: Args) => Promise<R>,
+    context: ClassMethodDecoratorContext<T, (this: T, ...args: Args) => Promise<R>>,
+  ): (this: T, ...args: Args) => Promise<R>
+  <T extends This, Args extends unknown[], R>(
+    target: T,
+    propertyKey: string | symbol,
+    descriptor?: TypedPropertyDescriptor<(this: T, ...args: Args) => Promise<R>>,
+  ): void
+}
+
+/**
+ * Class method decorator for circuit breaker protection, usable as a standard decorator
+ * or with experimentalDecorators enabled in tsconfig:
  *
  *   class MyService {
- *     constructor(private breaker: CircuitBreaker) {}
+ *     constructor(readonly breaker: CircuitBreaker) {}
  *
  *     @CircuitBreakerGuard('breaker')
  *     async fetchData(url: string) { ... }
  *   }
  *
- * The decorator will call assertCanExecute, recordSuccess, and recordFailure automatically.
+ * The decorator will call acquire, recordSuccess/recordFailure, and release automatically.
+ * Instead of a property name, the breaker can come from a getter such as
+ * `(self: MyService) => self.breaker` or from a `{ registry, name }` reference to a
+ * CircuitBreakerRegistry. A property name must name a public CircuitBreaker property of the
+ * decorated class, which is checked when the decorator is applied. To combine the breaker with retries, timeouts or a bulkhead, use
+ * PolicyGuard with a pipeline instead.
  *
- * @param breakerProperty The property name on the class instance holding the CircuitBreaker
+ * @param breakerSource The property name, getter or registry reference
+ * @param options Optional per-call options such as a timeout or fallback
  * @returns A method decorator that applies circuit breaker logic
+ * @throws BreakerNotFoundError from the decorated method if the source holds no breaker
  */
-export function CircuitBreakerGuard(breakerProperty: string) {
-  return function (
-    _target: unknown,
-    _propertyKey: string | symbol,
-    descriptor?: TypedPropertyDescriptor<(...args: unknown[]) => Promise<unknown>>,
-  ): void {
-    if (!descriptor) return
-    const originalMethod = descriptor.value
-    if (!originalMethod) return
-    descriptor.value = async function (this: Record<string, unknown>, ...args: unknown[]) {
-      const breaker = this[breakerProperty] as CircuitBreaker
-      breaker.assertCanExecute()
-      try {
-        const result = await originalMethod.apply(this, args)
-        breaker.recordSuccess()
-        return result
-      } catch (err) {
-        breaker.recordFailure()
-        throw err
-      }
-    }
-  }
+export function CircuitBreakerGuard<K extends string>(
+  breakerSource: K,
+  options?: CircuitBreakerCallOptions,
+): MethodGuard<PropertyHolder<K, CircuitBreaker>>
+export function CircuitBreakerGuard<This = unknown>(
+  breakerSource: BreakerSource<This>,
+  options?: CircuitBreakerCallOptions,
+): MethodGuard<This>
+export function CircuitBreakerGuard<This = unknown>(
+  breakerSource: BreakerSource<This>,
+  options: CircuitBreakerCallOptions = {},
+): MethodGuard<This> {
+  return guardMethod<This>(
+    <Args extends unknown[], R>(
+      instance: This,
+      method: (this: This, ...args: Args) => Promise<R>,
+      args: Args,
+    ) =>
+      execute(
+        resolveBreaker(instance, breakerSource, CircuitBreaker),
+        signal => invoke(method, instance, args, signal),
+        options as CircuitBreakerCallOptions<R, Args>,
+        args,
+      ),
+  )
 }
@@ -0,0 +1,16 @@
+/**
+ * Error thrown when a decorated method cannot find the circuit breaker guarding it.
+ */
+export class BreakerNotFoundError extends Error {
+  /**
+   * @param source Where the breaker was looked up, such as `property "breaker"`
+   * @param expected Name of the expected breaker class
+   */
+  constructor(
+    public readonly source: string,
+    expected = 'CircuitBreaker',
+  ) {
+    super(`No ${expected} found at ${source}`)
+    this.name = 'BreakerNotFoundError'
+  }
+}
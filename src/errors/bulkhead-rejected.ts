@@ -0,0 +1,18 @@
+import type { BulkheadRejectionReason } from '@/bulkhead'
+
+/**
+ * Error thrown when a bulkhead has no free slot for a call.
+ */
+export class BulkheadRejectedError extends Error {
+  /**
+   * @param bulkheadName Name of the rejecting bulkhead, if it has one
+   * @param reason Whether the queue was full or the call waited too long in it
+   */
+  constructor(
+    public readonly bulkheadName: string | undefined,
+    public readonly reason: BulkheadRejectionReason,
+  ) {
+    super(reason === 'QUEUE_FULL' ? 'Bulkhead queue is full' : 'Bulkhead queue timeout exceeded')
+    this.name = 'BulkheadRejectedError'
+  }
+}
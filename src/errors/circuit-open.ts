@@ -0,0 +1,25 @@
+/**
+ * Error thrown when a call is rejected because the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  /**
+   * @param breakerName Name of the rejecting circuit breaker, if it has one
+   * @param openedAt Timestamp the circuit opened at
+   * @param retryAfterMs Milliseconds until the circuit lets a trial call through
+   */
+  constructor(
+    public readonly breakerName: string | undefined,
+    public readonly openedAt: number | undefined,
+    public readonly retryAfterMs: number,
+  ) {
+    super('Circuit breaker is open')
+    this.name = 'CircuitOpenError'
+  }
+
+  /**
+   * Whole seconds until retry, suitable for an HTTP `Retry-After` header.
+   */
+  get retryAfterSeconds(): number {
+    return Math.ceil(this.retryAfterMs / 1000)
+  }
+}
@@ -1,9 +1,21 @@
+import { BreakerNotFoundError } from './breaker-not-found'
+import { BulkheadRejectedError } from './bulkhead-rejected'
+import { CircuitOpenError } from './circuit-open'
 import { ConcurrencyConflictError } from './concurrency-conflict'
+import { InvalidStateError } from './invalid-state'
 import { ItemAlreadyExistsError } from './item-already-exists'
+import { PolicyNotFoundError } from './policy-not-found'
 import { StorageOperationError } from './storage-operation-error'
+import { TimeoutError } from './timeout'
 
 export const Errors = {
+  BreakerNotFoundError,
+  BulkheadRejectedError,
+  CircuitOpenError,
   ConcurrencyConflictError,
+  InvalidStateError,
   ItemAlreadyExistsError,
+  PolicyNotFoundError,
   StorageOperationError,
+  TimeoutError,
 }
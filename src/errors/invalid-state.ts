@@ -0,0 +1,12 @@
+/**
+ * Error thrown when a stored circuit breaker state fails validation.
+ */
+export class InvalidStateError extends Error {
+  constructor(
+    key: string,
+    public readonly issues: readonly string[],
+  ) {
+    super(`Invalid circuit breaker state for key "${key}": ${issues.join('; ')}`)
+    this.name = 'InvalidStateError'
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Error thrown when a decorated method cannot find the policy guarding it.
+ */
+export class PolicyNotFoundError extends Error {
+  /**
+   * @param source Where the policy was looked up, such as `property "policy"`
+   */
+  constructor(public readonly source: string) {
+    super(`No Policy found at ${source}`)
+    this.name = 'PolicyNotFoundError'
+  }
+}
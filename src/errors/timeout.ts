@@ -0,0 +1,9 @@
+/**
+ * Error thrown when a guarded call does not settle within its timeout.
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Operation timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+  }
+}
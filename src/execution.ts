@@ -0,0 +1,260 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import type { Clock } from '@/clock'
+import type { BreakerSource, MethodGuard } from '@/decorator'
+import { Errors } from '@/errors'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type {
+  CallClassification,
+  CallMetadata,
+  CircuitBreakerCallOptions,
+  FallbackReason,
+  RemoteCircuitBreakerCallOptions,
+} from '@/types'
+
+/**
+ * Extension points for wrappers that build on execute, such as remote persistence.
+ */
+export interface ExecutionLifecycle {
+  /** Runs once permission was acquired, before the call starts */
+  readonly afterAcquire?: () => Promise<void>
+  /** Runs once the outcome was recorded, before a fallback is served or the result returned */
+  readonly afterSettle?: () => void
+}
+
+/**
+ * Resolves the breaker a method decorator guards with.
+ * @param instance The decorated class instance
+ * @param source The property name, getter or registry reference
+ * @param expected The breaker class the decorator needs
+ * @returns The breaker
+ * @throws BreakerNotFoundError if the source holds no breaker of the expected class
+ */
+export function resolveBreaker<This, B extends CircuitBreaker>(
+  instance: This,
+  source: BreakerSource<This, B>,
+  expected: abstract new (...args: never[]) => B,
+): B {
+  let breaker: unknown
+  let location: string
+  if (typeof source === 'string') {
+    breaker = (instance as Record<string, unknown>)[source]
+    location = `property "${source}"`
+  } else if (typeof source === 'function') {
+    breaker = source(instance)
+    location = 'the breaker getter'
+  } else {
+    breaker = source.registry.get(source.name)
+    location = `registry entry "${source.name}"`
+  }
+  if (!(breaker instanceof expected)) {
+    throw new Errors.BreakerNotFoundError(location, expected.name)
+  }
+  return breaker
+}
+
+/**
+ * Builds a method decorator that works both as a standard (TC39) decorator and with
+ * `experimentalDecorators`, replacing the method with one that runs it through `run`.
+ * @param run Runs the original method for an instance and its arguments
+ */
+export function guardMethod<This>(
+  run: <Args extends unknown[], R>(
+    instance: This,
+    method: (this: This, ...args: Args) => Promise<R>,
+    args: Args,
+  ) => Promise<R>,
+): MethodGuard<This> {
+  const wrap = <Args extends unknown[], R>(method: (this: This, ...args: Args) => Promise<R>) =>
+    async function (this: This, ...args: Args): Promise<R> {
+      return run(this, method, args)
+    }
+  return ((
+    methodOrTarget: unknown,
+    contextOrKey: unknown,
+    descriptor?: TypedPropertyDescriptor<(this: This, ...args: unknown[]) => Promise<unknown>>,
+  ) => {
+    if (typeof contextOrKey === 'object' && contextOrKey !== null) {
+      return wrap(methodOrTarget as (this: This, ...args: unknown[]) => Promise<unknown>)
+    }
+    if (descriptor?.value) descriptor.value = wrap(descriptor.value)
+  }) as MethodGuard<This>
+}
+
+/**
+ * Runs a call under the breaker: acquires permission, applies the timeout, records the
+ * classified outcome together with the call duration and releases the permission.
+ * Falls back for rejected, timed out and failed calls when a fallback is configured.
+ */
+export async function execute<Args extends unknown[], R>(
+  breaker: CircuitBreaker,
+  call: (signal?: AbortSignal) => Promise<R>,
+  options: CircuitBreakerCallOptions<R, Args>,
+  args: Args,
+  lifecycle: ExecutionLifecycle = {},
+): Promise<R> {
+  let period: number | undefined
+  try {
+    period = breaker.acquire()
+  } catch (err) {
+    if (err instanceof Errors.CircuitOpenError) return recover(breaker, options, args, 'OPEN', err)
+    throw err
+  }
+  try {
+    await lifecycle.afterAcquire?.()
+  } catch (err) {
+    if (period !== undefined) breaker.release(period)
+    throw err
+  }
+  const clock = options.clock ?? breaker.clock
+  const startedAt = clock.now()
+  let result: R
+  try {
+    result = await withTimeout(call, clock, options.timeoutMs)
+  } catch (err) {
+    const classification = classifyError(err, options)
+    settle(breaker, classification, { durationMs: clock.now() - startedAt, error: err }, period)
+    lifecycle.afterSettle?.()
+    if (classification !== 'FAILURE') throw err
+    const reason = err instanceof Errors.TimeoutError ? 'TIMEOUT' : 'FAILURE'
+    return recover(breaker, options, args, reason, err)
+  }
+  const classification = options.isResultFailure?.(result) ? 'FAILURE' : 'SUCCESS'
+  settle(breaker, classification, { durationMs: clock.now() - startedAt, result }, period)
+  lifecycle.afterSettle?.()
+  return result
+}
+
+/**
+ * Syncs the breaker, runs the call, and persists transitions made when acquiring
+ * permission (so other instances see HALF_OPEN trial slots) and when settling.
+ */
+export async function executeRemote<Args extends unknown[], R>(
+  breaker: RemoteCircuitBreaker,
+  call: (signal?: AbortSignal) => Promise<R>,
+  options: RemoteCircuitBreakerCallOptions<R, Args>,
+  args: Args,
+  lifecycle: Omit<ExecutionLifecycle, 'afterAcquire'> = {},
+): Promise<R> {
+  await breaker.sync(options.cacheTtlMs)
+  try {
+    return await execute(breaker, call, options, args, {
+      ...lifecycle,
+      afterAcquire: () => breaker.persist(),
+    })
+  } finally {
+    await breaker.persist()
+  }
+}
+
+/**
+ * Runs a call under any breaker, syncing and persisting remote breakers like executeRemote.
+ */
+export function executeWith<Args extends unknown[], R>(
+  breaker: CircuitBreaker,
+  call: (signal?: AbortSignal) => Promise<R>,
+  options: RemoteCircuitBreakerCallOptions<R, Args>,
+  args: Args,
+  lifecycle: Omit<ExecutionLifecycle, 'afterAcquire'> = {},
+): Promise<R> {
+  if (breaker instanceof RemoteCircuitBreaker) {
+    return executeRemote(breaker, call, options, args, lifecycle)
+  }
+  return execute(breaker, call, options, args, lifecycle)
+}
+
+/**
+ * Serves the fallback value for a rejected or failed call, or rethrows without a fallback.
+ */
+async function recover<Args extends unknown[], R>(
+  breaker: CircuitBreaker,
+  options: CircuitBreakerCallOptions<R, Args>,
+  args: Args,
+  reason: FallbackReason,
+  error: unknown,
+): Promise<R> {
+  if (!options.fallback) throw error
+  breaker.recordFallback(reason, error)
+  return options.fallback({ reason, error, args })
+}
+
+/**
+ * Classifies a thrown error: ignored classes first, then the `isFailure` predicate.
+ */
+function classifyError<R, Args extends unknown[]>(
+  error: unknown,
+  options: CircuitBreakerCallOptions<R, Args>,
+): CallClassification {
+  if (options.ignoreErrors?.some(type => error instanceof type)) return 'IGNORED'
+  if (options.isFailure && !options.isFailure(error)) return 'SUCCESS'
+  return 'FAILURE'
+}
+
+/**
+ * Records a classified outcome on the breaker and releases the trial slot taken by acquire,
+ * if any.
+ */
+function settle(
+  breaker: CircuitBreaker,
+  classification: CallClassification,
+  call: CallMetadata,
+  period: number | undefined,
+): void {
+  try {
+    if (classification === 'SUCCESS') breaker.recordSuccess(call)
+    else if (classification === 'FAILURE') breaker.recordFailure(call)
+    else breaker.recordIgnored(call)
+  } finally {
+    if (period !== undefined) breaker.release(period)
+  }
+}
+
+/**
+ * Races the call against a timer, aborting the signal handed to the call on expiry.
+ */
+export function withTimeout<R>(
+  call: (signal?: AbortSignal) => Promise<R>,
+  clock: Clock,
+  timeoutMs?: number,
+): Promise<R> {
+  if (timeoutMs === undefined) return call()
+  const controller = new AbortController()
+  return new Promise<R>((resolve, reject) => {
+    const timer = clock.setTimeout(() => {
+      const error = new Errors.TimeoutError(timeoutMs)
+      controller.abort(error)
+      reject(error)
+    }, timeoutMs)
+    // Started in a microtask so that a synchronous throw also clears the timer
+    Promise.resolve()
+      .then(() => call(controller.signal))
+      .then(
+        result => {
+          clock.clearTimeout(timer)
+          resolve(result)
+        },
+        err => {
+          clock.clearTimeout(timer)
+          reject(err)
+        },
+      )
+  })
+}
+
+/**
+ * Calls the wrapped function with the abort signal, when present, as its last declared
+ * parameter, so omitted optional arguments before it stay undefined. The position comes from
+ * `fn.length`, which stops counting at the first parameter with a default value: declare
+ * parameters before the signal as optional (`opts?: O`) rather than with a default
+ * (`opts = {}`), or the signal lands in the first defaulted parameter when it is omitted.
+ */
+export function invoke<Args extends unknown[], R>(
+  fn: (...args: Args) => Promise<R>,
+  thisArg: unknown,
+  args: Args,
+  signal?: AbortSignal,
+): Promise<R> {
+  if (!signal) return Reflect.apply(fn, thisArg, args)
+  const padded: unknown[] = [...args]
+  padded[Math.max(args.length, fn.length - 1)] = signal
+  return Reflect.apply(fn, thisArg, padded)
+}
@@ -0,0 +1,118 @@
+import { ManualClock } from '@/clock'
+import { Errors } from '@/errors'
+import { createGuardedFetch } from '@/guarded-fetch'
+import { CircuitBreakerRegistry, remoteCircuitBreakerFactory } from '@/registry'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerOptions,
+  VersionedStorageValue,
+} from '@/types'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('createGuardedFetch', () => {
+  let clock: ManualClock
+  let defaults: CircuitBreakerOptions
+  let responses: Map<string, () => Response>
+  const upstream = vi.fn(async (input: Parameters<typeof fetch>[0]) => {
+    const respond = responses.get(new URL(new Request(input).url).hostname)
+    if (!respond) throw new TypeError('fetch failed')
+    return respond()
+  })
+
+  beforeEach(() => {
+    clock = new ManualClock()
+    defaults = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000, clock }
+    responses = new Map()
+    upstream.mockClear()
+  })
+
+  it('should open one breaker per origin on failure responses', async () => {
+    responses.set('a.test', () => new Response('down', { status: 503 }))
+    responses.set('b.test', () => new Response('ok'))
+    const registry = new CircuitBreakerRegistry({ defaults })
+    const guarded = createGuardedFetch({ registry, fetch: upstream })
+
+    expect((await guarded('https://a.test/x')).status).toBe(503)
+    expect((await guarded('https://b.test/x')).status).toBe(200)
+    expect(registry.names()).toEqual(['https://a.test', 'https://b.test'])
+    expect(registry.get('https://a.test').getState().status).toBe('OPEN')
+
+    const rejected = await guarded('https://a.test/y')
+    expect(rejected.status).toBe(503)
+    expect(rejected.headers.get('Retry-After')).toBe('1')
+    expect(upstream).toHaveBeenCalledTimes(2)
+  })
+
+  it('should count network errors and throw on rejection when configured', async () => {
+    const registry = new CircuitBreakerRegistry({ defaults })
+    const guarded = createGuardedFetch({ registry, fetch: upstream, rejection: 'THROW' })
+
+    await expect(guarded('https://down.test/')).rejects.toThrow('fetch failed')
+    await expect(guarded('https://down.test/')).rejects.toThrow(Errors.CircuitOpenError)
+  })
+
+  it('should keep the circuit open for the upstream Retry-After', async () => {
+    let status = 429
+    responses.set(
+      'api.test',
+      () => new Response(null, { status, headers: { 'Retry-After': '120' } }),
+    )
+    const registry = new CircuitBreakerRegistry({ defaults })
+    const guarded = createGuardedFetch({ registry, fetch: upstream, rejection: 'THROW' })
+
+    await guarded('https://api.test/')
+    clock.advance(1000)
+    await expect(guarded('https://api.test/')).rejects.toMatchObject({ retryAfterMs: 119_000 })
+
+    status = 200
+    clock.advance(119_000)
+    expect((await guarded('https://api.test/')).status).toBe(200)
+    expect(registry.get('https://api.test').getState().status).toBe('CLOSED')
+  })
+
+  it('should use custom keys and failure rules', async () => {
+    responses.set('api.test', () => new Response(null, { status: 404 }))
+    const registry = new CircuitBreakerRegistry({ defaults })
+    const guarded = createGuardedFetch({
+      registry,
+      fetch: upstream,
+      key: request => new URL(request.url).pathname.split('/')[1] ?? '',
+      isFailureResponse: response => !response.ok,
+    })
+
+    await guarded('https://api.test/users/1')
+    expect(registry.names()).toEqual(['users'])
+    expect(registry.get('users').getState().status).toBe('OPEN')
+  })
+
+  it('should persist remote breakers, including the Retry-After extension', async () => {
+    responses.set(
+      'api.test',
+      () => new Response(null, { status: 503, headers: { 'Retry-After': '30' } }),
+    )
+    const store = new Map<string, VersionedStorageValue>()
+    const storage: AsyncCircuitBreakerStorage = {
+      async put(key, value) {
+        store.set(key, { value, version: '1' })
+        return '1'
+      },
+      async get(key) {
+        return store.get(key)
+      },
+      async delete(key) {
+        store.delete(key)
+      },
+    }
+    const registry = new CircuitBreakerRegistry({
+      defaults,
+      factory: remoteCircuitBreakerFactory(storage),
+    })
+    const guarded = createGuardedFetch({ registry, fetch: upstream })
+
+    await guarded('https://api.test/')
+    expect(store.get('https://api.test')?.value).toMatchObject({
+      status: 'OPEN',
+      resetTimeoutMs: 30_000,
+    })
+  })
+})
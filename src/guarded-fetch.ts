@@ -0,0 +1,117 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import { Errors } from '@/errors'
+import { executeWith } from '@/execution'
+import type { CircuitBreakerRegistry } from '@/registry'
+import type { RemoteCircuitBreakerCallOptions } from '@/types'
+
+/**
+ * What a guarded fetch does when the breaker rejects a request: RESPOND resolves to a
+ * synthetic 503 response, THROW rejects with CircuitOpenError.
+ */
+export type GuardedFetchRejection = 'RESPOND' | 'THROW'
+
+/**
+ * Configuration for createGuardedFetch.
+ */
+export interface GuardedFetchOptions<B extends CircuitBreaker = CircuitBreaker>
+  extends Pick<
+    RemoteCircuitBreakerCallOptions<Response>,
+    'timeoutMs' | 'isFailure' | 'ignoreErrors' | 'cacheTtlMs'
+  > {
+  /** Creates and holds the breakers, one per key */
+  readonly registry: CircuitBreakerRegistry<B>
+  /** Picks the breaker for a request, defaults to the request's origin */
+  readonly key?: (request: Request) => string
+  /** Whether a response counts as a failure, defaults to 5xx and 429 responses */
+  readonly isFailureResponse?: (response: Response) => boolean
+  /** What rejected requests resolve to, defaults to RESPOND */
+  readonly rejection?: GuardedFetchRejection
+  /** The fetch implementation to guard, defaults to the global fetch */
+  readonly fetch?: typeof fetch
+}
+
+/**
+ * Creates a fetch function guarded by one circuit breaker per origin, or per custom key.
+ *
+ * Breakers are created lazily through the registry, so a registry built with
+ * remoteCircuitBreakerFactory shares their state across instances: remote breakers are
+ * synced before and persisted after every request. Network errors and failure responses
+ * count as failures. When a failure response opens the circuit, its `Retry-After` header
+ * keeps the circuit open at least that long.
+ *
+ * @param options The registry, classification rules and rejection behaviour
+ * @returns A function with the signature of fetch
+ */
+export function createGuardedFetch<B extends CircuitBreaker>(
+  options: GuardedFetchOptions<B>,
+): (input: Request | string | URL, init?: RequestInit) => Promise<Response> {
+  const fetchImpl = options.fetch ?? globalThis.fetch
+  const keyOf = options.key ?? (request => new URL(request.url).origin)
+  const isFailureResponse = options.isFailureResponse ?? defaultIsFailureResponse
+  const callOptions: RemoteCircuitBreakerCallOptions<Response> = {
+    timeoutMs: options.timeoutMs,
+    isFailure: options.isFailure,
+    ignoreErrors: options.ignoreErrors,
+    cacheTtlMs: options.cacheTtlMs,
+    isResultFailure: isFailureResponse,
+  }
+
+  return async (input, init) => {
+    const request = new Request(input, init)
+    const breaker = options.registry.get(keyOf(request))
+    let response: Response | undefined
+    const call = async (signal?: AbortSignal) => {
+      response = await fetchImpl(
+        signal
+          ? new Request(request, { signal: AbortSignal.any([request.signal, signal]) })
+          : request,
+      )
+      return response
+    }
+    const lifecycle = {
+      afterSettle: () => {
+        const delayMs = response && isFailureResponse(response) && retryAfterMs(response, breaker)
+        if (delayMs) breaker.holdOpen(delayMs)
+      },
+    }
+    try {
+      return await executeWith(breaker, call, callOptions, [], lifecycle)
+    } catch (err) {
+      if (err instanceof Errors.CircuitOpenError && options.rejection !== 'THROW') {
+        return rejectedResponse(err.retryAfterSeconds)
+      }
+      throw err
+    }
+  }
+}
+
+/**
+ * Treats server errors and rate limiting as failures.
+ */
+function defaultIsFailureResponse(response: Response): boolean {
+  return response.status >= 500 || response.status === 429
+}
+
+/**
+ * Milliseconds a `Retry-After` header asks to wait, given in seconds or as an HTTP date.
+ * @returns The delay, or undefined if the header is missing or malformed
+ */
+function retryAfterMs(response: Response, breaker: CircuitBreaker): number | undefined {
+  const header = response.headers.get('Retry-After')?.trim()
+  if (!header) return undefined
+  if (/^\d+$/.test(header)) return Number(header) * 1000
+  const date = Date.parse(header)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, date - breaker.clock.now())
+}
+
+/**
+ * Builds the response served in place of a rejected request.
+ */
+function rejectedResponse(retryAfterSeconds: number): Response {
+  return new Response('Circuit breaker is open', {
+    status: 503,
+    statusText: 'Service Unavailable',
+    headers: { 'Retry-After': String(retryAfterSeconds) },
+  })
+}
@@ -0,0 +1,46 @@
+/**
+ * Fields a hooks object may carry to receive the failures and pending promises of its hooks.
+ */
+export interface HookErrorSink {
+  onHookError?: (error: unknown, meta: { name?: string; hook: string }) => void
+  waitUntil?: (promise: Promise<unknown>) => void
+}
+
+/**
+ * Calls a hook without letting it break the caller: exceptions and rejections of async hooks
+ * are reported to onHookError, and pending promises are handed to waitUntil.
+ * @param sink The hooks object the hook belongs to
+ * @param hook Name of the hook, for error reports
+ * @param fn The hook, if set
+ * @param args The hook arguments
+ * @param name Name of the emitting policy
+ */
+export function callHook<A extends unknown[]>(
+  sink: HookErrorSink,
+  hook: string,
+  fn: ((...args: A) => unknown) | undefined,
+  args: A,
+  name?: string,
+): void {
+  if (!fn) return
+  try {
+    const result = fn(...args)
+    if (result instanceof Promise) {
+      const settled = result.catch(err => reportHookError(sink, err, hook, name))
+      sink.waitUntil?.(settled)
+    }
+  } catch (err) {
+    reportHookError(sink, err, hook, name)
+  }
+}
+
+/**
+ * Reports a failing hook, swallowing errors of onHookError itself.
+ */
+function reportHookError(sink: HookErrorSink, error: unknown, hook: string, name?: string): void {
+  try {
+    sink.onHookError?.(error, { name, hook })
+  } catch {
+    // Nothing is left to report to
+  }
+}
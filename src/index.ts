@@ -1,6 +1,18 @@
 export * from './adapters'
+export * from './admin'
+export * from './broadcast-sync'
+export * from './bulkhead'
 export * from './circuit-breaker'
+export * from './clock'
 export * from './decorator'
 export * from './errors'
+export * from './guarded-fetch'
+export * from './keyed-circuit-breaker'
+export * from './metrics'
+export * from './pipeline'
+export * from './registry'
 export * from './remote-circuit-breaker'
+export * from './remote-decorator'
+export * from './retry'
+export * from './state-schema'
 export * from './types'
@@ -0,0 +1,113 @@
+import { ManualClock } from '@/clock'
+import { Errors } from '@/errors'
+import { KeyedCircuitBreaker, withKeyedCircuitBreaker } from '@/keyed-circuit-breaker'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerOptions,
+  VersionedStorageValue,
+} from '@/types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+describe('KeyedCircuitBreaker', () => {
+  let clock: ManualClock
+  let defaults: CircuitBreakerOptions
+
+  beforeEach(() => {
+    clock = new ManualClock()
+    defaults = { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 60_000, clock }
+  })
+
+  it('should keep an independent breaker per key', async () => {
+    const breakers = new KeyedCircuitBreaker({ defaults })
+    const load = withKeyedCircuitBreaker(
+      breakers,
+      (tenant: string) => tenant,
+      async (tenant: string) => {
+        if (tenant === 'broken') throw new Error('down')
+        return `data for ${tenant}`
+      },
+    )
+    await expect(load('broken')).rejects.toThrow('down')
+    await expect(load('broken')).rejects.toThrow(Errors.CircuitOpenError)
+    await expect(load('healthy')).resolves.toBe('data for healthy')
+    expect(breakers.stats()).toEqual({
+      keys: 2,
+      statuses: { CLOSED: 1, OPEN: 1, HALF_OPEN: 0 },
+      openKeys: ['broken'],
+      evictions: 0,
+    })
+  })
+
+  it('should evict the least recently used key beyond maxKeys', () => {
+    const breakers = new KeyedCircuitBreaker({ defaults, maxKeys: 2 })
+    const a = breakers.get('a')
+    breakers.get('b')
+    expect(breakers.get('a')).toBe(a)
+    breakers.get('c')
+    expect(breakers.keys()).toEqual(['a', 'c'])
+    expect(breakers.find('b')).toBeUndefined()
+    expect(breakers.stats().evictions).toBe(1)
+  })
+
+  it('should evict keys idle for idleTtlMs', () => {
+    const breakers = new KeyedCircuitBreaker({ defaults, idleTtlMs: 1000 })
+    const a = breakers.get('a')
+    a.recordFailure()
+    clock.advance(500)
+    breakers.get('b')
+    clock.advance(500)
+    expect(breakers.stats()).toMatchObject({ keys: 1, openKeys: [], evictions: 1 })
+    expect(breakers.get('a')).not.toBe(a)
+    expect(breakers.get('a').isClosed()).toBe(true)
+  })
+
+  it('should dispose evicted and deleted breakers', () => {
+    const breakers = new KeyedCircuitBreaker({
+      defaults: { ...defaults, autoHalfOpen: true },
+      maxKeys: 1,
+    })
+    breakers.get('a').recordFailure()
+    breakers.get('b').recordFailure()
+    expect(clock.pendingTimers).toBe(1)
+    expect(breakers.delete('b')).toBe(true)
+    expect(clock.pendingTimers).toBe(0)
+  })
+
+  it('should persist per-key breakers under the key prefix', async () => {
+    const store = new Map<string, VersionedStorageValue>()
+    const storage: AsyncCircuitBreakerStorage = {
+      async put(key, value) {
+        store.set(key, { value, version: '1' })
+        return '1'
+      },
+      async get(key) {
+        return store.get(key)
+      },
+      async delete(key) {
+        store.delete(key)
+      },
+    }
+    const breakers = new KeyedCircuitBreaker({
+      defaults,
+      storage,
+      keyPrefix: 'tenant:',
+      maxKeys: 1,
+    })
+    const load = withKeyedCircuitBreaker(
+      breakers,
+      (tenant: string) => tenant,
+      async (_tenant: string): Promise<string> => {
+        throw new Error('down')
+      },
+    )
+    await expect(load('acme')).rejects.toThrow('down')
+    expect(breakers.find('acme')).toBeInstanceOf(RemoteCircuitBreaker)
+    expect(store.get('tenant:acme')?.value.status).toBe('OPEN')
+
+    // Evicted, the breaker is recreated and reloads its state from storage
+    await expect(load('globex')).rejects.toThrow('down')
+    expect(breakers.keys()).toEqual(['globex'])
+    await expect(load('acme')).rejects.toThrow(Errors.CircuitOpenError)
+  })
+})
@@ -0,0 +1,204 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+import { executeWith, invoke } from '@/execution'
+import type { CircuitBreakerFactory } from '@/registry'
+import { inMemoryCircuitBreakerFactory, remoteCircuitBreakerFactory } from '@/registry'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerHooks,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  InvalidStatePolicy,
+  RemoteCircuitBreakerCallOptions,
+  TimedCallOptions,
+  UntimedCallOptions,
+} from '@/types'
+
+/**
+ * Configuration for a KeyedCircuitBreaker.
+ */
+export interface KeyedCircuitBreakerOptions {
+  /** Options every per-key breaker is created with */
+  readonly defaults: CircuitBreakerOptions
+  /** Hooks shared by every per-key breaker */
+  readonly hooks?: CircuitBreakerHooks
+  /** Maximum number of keys held at once, evicting the least recently used (default: 1000) */
+  readonly maxKeys?: number
+  /** Evicts keys unused for this many milliseconds, defaults to never */
+  readonly idleTtlMs?: number
+  /** Persists every per-key breaker as a RemoteCircuitBreaker in this storage */
+  readonly storage?: AsyncCircuitBreakerStorage
+  /** Prefix of the breaker names, and so of their storage keys (default: '') */
+  readonly keyPrefix?: string
+  /** What loading invalid stored state does, see RemoteCircuitBreakerOptions */
+  readonly invalidStatePolicy?: InvalidStatePolicy
+}
+
+/**
+ * Aggregate view of the breakers held by a KeyedCircuitBreaker.
+ */
+export interface KeyedCircuitBreakerStats {
+  /** Number of keys currently held */
+  readonly keys: number
+  /** Number of held breakers per status */
+  readonly statuses: Record<CircuitBreakerStatus, number>
+  /** Keys whose breaker is OPEN */
+  readonly openKeys: string[]
+  /** Keys evicted since the KeyedCircuitBreaker was created */
+  readonly evictions: number
+}
+
+interface KeyedEntry {
+  readonly breaker: CircuitBreaker
+  lastUsedAt: number
+}
+
+/**
+ * Holds an independent circuit breaker per key, such as a tenant or shard, so that one
+ * failing key does not open the circuit for the others.
+ *
+ * Memory is bounded by evicting the least recently used key beyond `maxKeys` and keys idle
+ * for `idleTtlMs`. Evicted breakers are disposed. An evicted in-memory breaker forgets its
+ * state; with `storage`, the state is reloaded when the key is used again.
+ */
+export class KeyedCircuitBreaker {
+  // Ordered from least to most recently used
+  private readonly entries = new Map<string, KeyedEntry>()
+  private readonly factory: CircuitBreakerFactory
+  private readonly clock: Clock
+  private evictions = 0
+
+  /**
+   * @param options Default options, eviction policy and optional storage
+   */
+  constructor(private readonly options: KeyedCircuitBreakerOptions) {
+    this.factory = options.storage
+      ? remoteCircuitBreakerFactory(options.storage, options.invalidStatePolicy)
+      : inMemoryCircuitBreakerFactory
+    this.clock = options.defaults.clock ?? systemClock
+  }
+
+  /**
+   * Returns the breaker for `key`, creating it if needed, and marks the key as used.
+   * @param key The key, such as a tenant id
+   * @returns The breaker, a RemoteCircuitBreaker when storage is configured
+   */
+  public get(key: string): CircuitBreaker {
+    const now = this.clock.now()
+    this.evictIdle(now)
+    const existing = this.entries.get(key)
+    if (existing) {
+      this.entries.delete(key)
+      existing.lastUsedAt = now
+      this.entries.set(key, existing)
+      return existing.breaker
+    }
+    const name = `${this.options.keyPrefix ?? ''}${key}`
+    const breaker = this.factory(name, this.options.defaults, this.options.hooks)
+    this.entries.set(key, { breaker, lastUsedAt: now })
+    const maxKeys = this.options.maxKeys ?? 1000
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= maxKeys) break
+      this.evict(oldest)
+    }
+    return breaker
+  }
+
+  /**
+   * Returns the breaker for `key` without creating it or marking the key as used.
+   */
+  public find(key: string): CircuitBreaker | undefined {
+    return this.entries.get(key)?.breaker
+  }
+
+  /**
+   * Removes the breaker for `key` and disposes it.
+   * @returns True if a breaker was removed
+   */
+  public delete(key: string): boolean {
+    this.entries.get(key)?.breaker.dispose()
+    return this.entries.delete(key)
+  }
+
+  /**
+   * Returns the held keys, from least to most recently used.
+   */
+  public keys(): string[] {
+    return [...this.entries.keys()]
+  }
+
+  /**
+   * Returns counts across all held breakers, for monitoring.
+   */
+  public stats(): KeyedCircuitBreakerStats {
+    this.evictIdle(this.clock.now())
+    const statuses: Record<CircuitBreakerStatus, number> = { CLOSED: 0, OPEN: 0, HALF_OPEN: 0 }
+    const openKeys: string[] = []
+    for (const [key, { breaker }] of this.entries) {
+      const { status } = breaker.getState()
+      statuses[status]++
+      if (status === 'OPEN') openKeys.push(key)
+    }
+    return { keys: this.entries.size, statuses, openKeys, evictions: this.evictions }
+  }
+
+  /**
+   * Evicts keys idle for longer than `idleTtlMs`, which sit at the front of the LRU order.
+   * @param now Current timestamp in milliseconds
+   */
+  private evictIdle(now: number): void {
+    const { idleTtlMs } = this.options
+    if (idleTtlMs === undefined) return
+    for (const [key, entry] of this.entries) {
+      if (now - entry.lastUsedAt < idleTtlMs) return
+      this.evict(key)
+    }
+  }
+
+  private evict(key: string): void {
+    this.entries.get(key)?.breaker.dispose()
+    this.entries.delete(key)
+    this.evictions++
+  }
+}
+
+/**
+ * Wraps an async function with a breaker per key derived from the call's arguments.
+ * Applies the same logic as withCircuitBreaker to the key's breaker, and the same logic as
+ * withRemoteCircuitBreaker when the KeyedCircuitBreaker persists its breakers.
+ *
+ * @template Args - Argument types of the wrapped function
+ * @template R - Return type of the wrapped function
+ * @param breakers The KeyedCircuitBreaker holding the per-key breakers
+ * @param keyFn Derives the key from the call's arguments, such as a tenant id
+ * @param fn The async function to wrap
+ * @param options Optional per-call options such as a cache TTL, timeout or fallback
+ * @returns A function that applies the key's breaker to the original function
+ */
+export function withKeyedCircuitBreaker<Args extends unknown[], R>(
+  breakers: KeyedCircuitBreaker,
+  keyFn: (...args: Args) => string,
+  fn: (...args: [...Args, AbortSignal]) => Promise<R>,
+  options: TimedCallOptions<RemoteCircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
+export function withKeyedCircuitBreaker<Args extends unknown[], R>(
+  breakers: KeyedCircuitBreaker,
+  keyFn: (...args: Args) => string,
+  fn: (...args: Args) => Promise<R>,
+  options?: UntimedCallOptions<RemoteCircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
+export function withKeyedCircuitBreaker<Args extends unknown[], R>(
+  breakers: KeyedCircuitBreaker,
+  keyFn: (...args: Args) => string,
+  fn: (...args: Args) => Promise<R>,
+  options: RemoteCircuitBreakerCallOptions<R, Args> = {},
+): (...args: Args) => Promise<R> {
+  return async (...args: Args): Promise<R> =>
+    executeWith(
+      breakers.get(keyFn(...args)),
+      signal => invoke(fn, undefined, args, signal),
+      options,
+      args,
+    )
+}
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker } from './circuit-breaker'
+import { withCircuitBreaker } from './decorator'
+import { Errors } from './errors'
+import {
+  CircuitBreakerMetrics,
+  PROMETHEUS_CONTENT_TYPE,
+  prometheusResponse,
+  renderPrometheusMetrics,
+} from './metrics'
+
+describe('CircuitBreakerMetrics', () => {
+  let breaker: CircuitBreaker
+  let metrics: CircuitBreakerMetrics
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, successThreshold: 1, resetTimeoutMs: 1000 },
+      'api',
+    )
+    metrics = new CircuitBreakerMetrics(breaker, { windowMs: 10_000, bucketSizeMs: 1000 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should count calls made through withCircuitBreaker', async () => {
+    const ok = withCircuitBreaker(breaker, async () => 'ok')
+    const fail = withCircuitBreaker(breaker, async () => {
+      throw new Error('fail')
+    })
+    await ok()
+    await expect(fail()).rejects.toThrow('fail')
+    await expect(fail()).rejects.toThrow('fail')
+    await expect(ok()).rejects.toThrow(Errors.CircuitOpenError)
+
+    const { totals, window, status } = metrics.snapshot()
+    expect(status).toBe('OPEN')
+    expect(totals).toEqual({
+      calls: 3,
+      successes: 1,
+      failures: 2,
+      ignored: 0,
+      rejections: 1,
+      fallbacks: 0,
+    })
+    expect(window).toEqual(totals)
+  })
+
+  it('should count ignored calls and fallbacks', async () => {
+    class NotFound extends Error {}
+    const wrapped = withCircuitBreaker(
+      breaker,
+      async (missing: boolean) => {
+        throw missing ? new NotFound() : new Error('fail')
+      },
+      { ignoreErrors: [NotFound], fallback: () => 'cached' },
+    )
+    await expect(wrapped(true)).rejects.toBeInstanceOf(NotFound)
+    await expect(wrapped(false)).resolves.toBe('cached')
+
+    const { totals } = metrics.snapshot()
+    expect(totals.ignored).toBe(1)
+    expect(totals.failures).toBe(1)
+    expect(totals.fallbacks).toBe(1)
+  })
+
+  it('should drop counts that fell out of the rolling window', () => {
+    breaker.recordSuccess()
+    vi.setSystemTime(5000)
+    breaker.recordSuccess()
+    vi.setSystemTime(12_000)
+
+    const { totals, window } = metrics.snapshot()
+    expect(totals.successes).toBe(2)
+    expect(window.successes).toBe(1)
+  })
+
+  it('should fill the latency histogram', () => {
+    breaker.recordSuccess({ durationMs: 3 })
+    breaker.recordSuccess({ durationMs: 40 })
+    breaker.recordFailure({ durationMs: 20_000 })
+
+    const { latency } = metrics.snapshot()
+    expect(latency.count).toBe(3)
+    expect(latency.sumMs).toBe(20_043)
+    expect(latency.counts[0]).toBe(1)
+    expect(latency.counts[latency.bucketsMs.indexOf(50)]).toBe(2)
+    expect(latency.counts[latency.counts.length - 1]).toBe(2)
+  })
+
+  it('should track the time spent in each state', () => {
+    vi.setSystemTime(500)
+    breaker.recordFailure()
+    breaker.recordFailure()
+    vi.setSystemTime(1500)
+    breaker.assertCanExecute()
+    vi.setSystemTime(1700)
+
+    expect(metrics.snapshot().timeInStateMs).toEqual({ CLOSED: 500, OPEN: 1000, HALF_OPEN: 200 })
+  })
+
+  it('should stop collecting once disposed', () => {
+    metrics.dispose()
+    breaker.recordSuccess()
+    expect(metrics.snapshot().totals.calls).toBe(0)
+  })
+})
+
+describe('renderPrometheusMetrics', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should render counters, histogram and state for every breaker', () => {
+    const api = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'api',
+    )
+    const db = new CircuitBreaker({
+      failureThreshold: 5,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    const collectors = [
+      new CircuitBreakerMetrics(api, { latencyBucketsMs: [100] }),
+      new CircuitBreakerMetrics(db, { latencyBucketsMs: [100] }),
+    ]
+    api.recordFailure({ durationMs: 250 })
+    db.recordSuccess({ durationMs: 50 })
+    vi.setSystemTime(2000)
+
+    const text = renderPrometheusMetrics(collectors)
+    expect(text).toContain('# TYPE zapguard_circuit_breaker_calls_total counter')
+    expect(text).toContain(
+      'zapguard_circuit_breaker_calls_total{breaker="api",outcome="failure"} 1',
+    )
+    expect(text).toContain(
+      'zapguard_circuit_breaker_calls_total{breaker="default",outcome="success"} 1',
+    )
+    expect(text).toContain(
+      'zapguard_circuit_breaker_call_duration_seconds_bucket{breaker="api",le="0.1"} 0',
+    )
+    expect(text).toContain(
+      'zapguard_circuit_breaker_call_duration_seconds_bucket{breaker="api",le="+Inf"} 1',
+    )
+    expect(text).toContain('zapguard_circuit_breaker_call_duration_seconds_sum{breaker="api"} 0.25')
+    expect(text).toContain('zapguard_circuit_breaker_state{breaker="api",state="OPEN"} 1')
+    expect(text).toContain('zapguard_circuit_breaker_state{breaker="api",state="CLOSED"} 0')
+    expect(text).toContain(
+      'zapguard_circuit_breaker_state_seconds_total{breaker="default",state="CLOSED"} 2',
+    )
+    expect(text.match(/# HELP zapguard_circuit_breaker_state /g)).toHaveLength(1)
+    expect(text.endsWith('\n')).toBe(true)
+  })
+
+  it('should escape label values and honour the prefix', () => {
+    const breaker = new CircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1000 },
+      'say "hi"\\',
+    )
+    const text = renderPrometheusMetrics([new CircuitBreakerMetrics(breaker)], { prefix: 'cb' })
+    expect(text).toContain('cb_rejections_total{breaker="say \\"hi\\"\\\\"} 0')
+  })
+
+  it('should build a /metrics response', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1,
+    })
+    const res = prometheusResponse([new CircuitBreakerMetrics(breaker)])
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe(PROMETHEUS_CONTENT_TYPE)
+    expect(await res.text()).toContain('zapguard_circuit_breaker_fallbacks_total')
+  })
+})
@@ -0,0 +1,350 @@
+import type { CircuitBreaker } from '@/circuit-breaker'
+import type { Clock } from '@/clock'
+import type { CallClassification, CircuitBreakerStatus } from '@/types'
+
+/**
+ * Options for collecting circuit breaker metrics.
+ */
+export interface CircuitBreakerMetricsOptions {
+  /** Length of the rolling window in milliseconds (default: 60000) */
+  readonly windowMs?: number
+  /** Width of each rolling window bucket in milliseconds (default: 1000) */
+  readonly bucketSizeMs?: number
+  /** Upper bounds of the latency histogram buckets in milliseconds, in ascending order */
+  readonly latencyBucketsMs?: readonly number[]
+  /** Clock used for the rolling window and time in state, defaults to the breaker's clock */
+  readonly clock?: Clock
+}
+
+/**
+ * Call counters of a circuit breaker.
+ */
+export interface CircuitBreakerCallCounts {
+  /** Calls that were executed, whatever their outcome */
+  readonly calls: number
+  readonly successes: number
+  readonly failures: number
+  /** Calls whose outcome counted neither as success nor as failure */
+  readonly ignored: number
+  /** Calls rejected without executing because the circuit was open */
+  readonly rejections: number
+  /** Calls that resolved to a fallback value */
+  readonly fallbacks: number
+}
+
+/**
+ * Cumulative call latency histogram.
+ */
+export interface LatencyHistogram {
+  /** Upper bounds of the buckets in milliseconds */
+  readonly bucketsMs: readonly number[]
+  /** Number of calls at or below each bound, one entry per bound */
+  readonly counts: readonly number[]
+  /** Number of observed calls, including those above the last bound */
+  readonly count: number
+  /** Sum of all observed durations in milliseconds */
+  readonly sumMs: number
+}
+
+/**
+ * Point-in-time view of the metrics of one circuit breaker.
+ */
+export interface CircuitBreakerMetricsSnapshot {
+  readonly name: string
+  readonly status: CircuitBreakerStatus
+  /** Counters since the metrics were created */
+  readonly totals: CircuitBreakerCallCounts
+  /** Counters over the rolling window */
+  readonly window: CircuitBreakerCallCounts
+  readonly latency: LatencyHistogram
+  /** Time spent in each state since the metrics were created, in milliseconds */
+  readonly timeInStateMs: Readonly<Record<CircuitBreakerStatus, number>>
+}
+
+/**
+ * Options for rendering metrics in Prometheus text format.
+ */
+export interface PrometheusOptions {
+  /** Prefix of every metric name (default: 'zapguard_circuit_breaker') */
+  readonly prefix?: string
+}
+
+/**
+ * Content type of the Prometheus text exposition format.
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Default latency histogram bounds in milliseconds.
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS: readonly number[] = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+]
+
+type Counter = keyof CircuitBreakerCallCounts
+
+interface MetricsBucket extends Record<Counter, number> {
+  startedAt: number
+}
+
+const CLASSIFICATION_COUNTERS: Record<CallClassification, Counter> = {
+  SUCCESS: 'successes',
+  FAILURE: 'failures',
+  IGNORED: 'ignored',
+}
+
+const emptyCounts = (): Record<Counter, number> => ({
+  calls: 0,
+  successes: 0,
+  failures: 0,
+  ignored: 0,
+  rejections: 0,
+  fallbacks: 0,
+})
+
+/**
+ * Collects rolling metrics for a circuit breaker by subscribing to its hooks,
+ * so calls made through withCircuitBreaker or CircuitBreakerGuard are counted
+ * without further wiring.
+ */
+export class CircuitBreakerMetrics {
+  private readonly totals = emptyCounts()
+  private buckets: MetricsBucket[] = []
+  private readonly windowMs: number
+  private readonly bucketSizeMs: number
+  private readonly latencyBucketsMs: readonly number[]
+  private readonly latencyCounts: number[]
+  private latencyCount = 0
+  private latencySumMs = 0
+  private readonly timeInStateMs: Record<CircuitBreakerStatus, number> = {
+    CLOSED: 0,
+    OPEN: 0,
+    HALF_OPEN: 0,
+  }
+  private status: CircuitBreakerStatus
+  private enteredAt: number
+  private readonly unsubscribe: () => void
+  private readonly clock: Clock
+
+  /**
+   * @param breaker The circuit breaker to observe
+   * @param options Rolling window and histogram configuration
+   */
+  constructor(
+    private readonly breaker: CircuitBreaker,
+    options: CircuitBreakerMetricsOptions = {},
+  ) {
+    this.clock = options.clock ?? breaker.clock
+    this.windowMs = options.windowMs ?? 60_000
+    this.bucketSizeMs = options.bucketSizeMs ?? 1000
+    this.latencyBucketsMs = options.latencyBucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS
+    this.latencyCounts = this.latencyBucketsMs.map(() => 0)
+    this.status = breaker.getState().status
+    this.enteredAt = this.clock.now()
+    this.unsubscribe = breaker.subscribe({
+      onStateChange: (_prev, next, { timestamp }) => this.trackState(next.status, timestamp),
+      onCallClassified: (classification, { durationMs }) => {
+        const now = this.clock.now()
+        this.count('calls', now)
+        this.count(CLASSIFICATION_COUNTERS[classification], now)
+        if (durationMs !== undefined) this.observeLatency(durationMs)
+      },
+      onRejected: ({ timestamp }) => this.count('rejections', timestamp),
+      onFallback: () => this.count('fallbacks', this.clock.now()),
+    })
+  }
+
+  /**
+   * Name the metrics are reported under, 'default' for unnamed breakers.
+   */
+  public get name(): string {
+    return this.breaker.name ?? 'default'
+  }
+
+  /**
+   * Returns the current metrics.
+   * @returns A snapshot of the counters, latency histogram and time in state
+   */
+  public snapshot(): CircuitBreakerMetricsSnapshot {
+    const now = this.clock.now()
+    // Hydrating a remote breaker replaces its state without a transition
+    this.trackState(this.breaker.getState().status, now)
+    this.evict(now)
+    const window = emptyCounts()
+    for (const bucket of this.buckets) {
+      for (const counter of Object.keys(window) as Counter[]) {
+        window[counter] += bucket[counter]
+      }
+    }
+    return {
+      name: this.name,
+      status: this.status,
+      totals: { ...this.totals },
+      window,
+      latency: {
+        bucketsMs: this.latencyBucketsMs,
+        counts: [...this.latencyCounts],
+        count: this.latencyCount,
+        sumMs: this.latencySumMs,
+      },
+      timeInStateMs: {
+        ...this.timeInStateMs,
+        [this.status]: this.timeInStateMs[this.status] + (now - this.enteredAt),
+      },
+    }
+  }
+
+  /**
+   * Stops collecting metrics from the breaker.
+   */
+  public dispose(): void {
+    this.unsubscribe()
+  }
+
+  /**
+   * Increments a counter in the totals and in the current rolling window bucket.
+   */
+  private count(counter: Counter, now: number): void {
+    this.totals[counter]++
+    const startedAt = now - (now % this.bucketSizeMs)
+    let bucket = this.buckets[this.buckets.length - 1]
+    if (!bucket || bucket.startedAt !== startedAt) {
+      bucket = { startedAt, ...emptyCounts() }
+      this.buckets.push(bucket)
+      this.evict(now)
+    }
+    bucket[counter]++
+  }
+
+  /**
+   * Drops buckets that fell out of the rolling window.
+   */
+  private evict(now: number): void {
+    const cutoff = now - this.windowMs
+    this.buckets = this.buckets.filter(bucket => bucket.startedAt > cutoff)
+  }
+
+  /**
+   * Adds a call duration to the latency histogram.
+   */
+  private observeLatency(durationMs: number): void {
+    this.latencyCount++
+    this.latencySumMs += durationMs
+    this.latencyBucketsMs.forEach((bound, i) => {
+      if (durationMs <= bound) this.latencyCounts[i] = (this.latencyCounts[i] ?? 0) + 1
+    })
+  }
+
+  /**
+   * Accounts the time spent in the previous state when the status changes.
+   */
+  private trackState(status: CircuitBreakerStatus, now: number): void {
+    if (status === this.status) return
+    this.timeInStateMs[this.status] += now - this.enteredAt
+    this.status = status
+    this.enteredAt = now
+  }
+}
+
+const STATUSES: readonly CircuitBreakerStatus[] = ['CLOSED', 'OPEN', 'HALF_OPEN']
+
+const OUTCOME_COUNTERS: Record<string, Counter> = {
+  success: 'successes',
+  failure: 'failures',
+  ignored: 'ignored',
+}
+
+/**
+ * Escapes a Prometheus label value.
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+
+/**
+ * Formats a label set, e.g. `{breaker="api",state="OPEN"}`.
+ */
+const labels = (values: Record<string, string>): string =>
+  `{${Object.entries(values)
+    .map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+    .join(',')}}`
+
+/**
+ * Renders the metrics of one or more circuit breakers in Prometheus text format.
+ *
+ * Counters and the latency histogram are cumulative, as Prometheus computes rates itself;
+ * the rolling window is only available through snapshot().
+ *
+ * @param metrics The metrics collectors to render
+ * @param options Rendering options such as the metric name prefix
+ * @returns The exposition text, ending with a newline
+ */
+export function renderPrometheusMetrics(
+  metrics: Iterable<CircuitBreakerMetrics>,
+  options: PrometheusOptions = {},
+): string {
+  const prefix = options.prefix ?? 'zapguard_circuit_breaker'
+  const snapshots = [...metrics].map(m => m.snapshot())
+  const lines: string[] = []
+  const family = (
+    name: string,
+    type: string,
+    help: string,
+    samples: (s: CircuitBreakerMetricsSnapshot) => string[],
+  ): void => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`)
+    for (const snapshot of snapshots) lines.push(...samples(snapshot))
+  }
+
+  family('calls_total', 'counter', 'Executed calls by outcome.', s =>
+    Object.entries(OUTCOME_COUNTERS).map(
+      ([outcome, counter]) =>
+        `${prefix}_calls_total${labels({ breaker: s.name, outcome })} ${s.totals[counter]}`,
+    ),
+  )
+  family('rejections_total', 'counter', 'Calls rejected because the circuit was open.', s => [
+    `${prefix}_rejections_total${labels({ breaker: s.name })} ${s.totals.rejections}`,
+  ])
+  family('fallbacks_total', 'counter', 'Calls that resolved to a fallback value.', s => [
+    `${prefix}_fallbacks_total${labels({ breaker: s.name })} ${s.totals.fallbacks}`,
+  ])
+  family('call_duration_seconds', 'histogram', 'Duration of executed calls.', s => {
+    const name = `${prefix}_call_duration_seconds`
+    return [
+      ...s.latency.bucketsMs.map(
+        (bound, i) =>
+          `${name}_bucket${labels({ breaker: s.name, le: String(bound / 1000) })} ${s.latency.counts[i] ?? 0}`,
+      ),
+      `${name}_bucket${labels({ breaker: s.name, le: '+Inf' })} ${s.latency.count}`,
+      `${name}_sum${labels({ breaker: s.name })} ${s.latency.sumMs / 1000}`,
+      `${name}_count${labels({ breaker: s.name })} ${s.latency.count}`,
+    ]
+  })
+  family('state', 'gauge', 'Current state, 1 for the active state and 0 otherwise.', s =>
+    STATUSES.map(
+      state => `${prefix}_state${labels({ breaker: s.name, state })} ${state === s.status ? 1 : 0}`,
+    ),
+  )
+  family('state_seconds_total', 'counter', 'Time spent in each state.', s =>
+    STATUSES.map(
+      state =>
+        `${prefix}_state_seconds_total${labels({ breaker: s.name, state })} ${s.timeInStateMs[state] / 1000}`,
+    ),
+  )
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Builds a `/metrics` response for a Worker or any fetch-style Node route.
+ * @param metrics The metrics collectors to render
+ * @param options Rendering options such as the metric name prefix
+ * @returns A 200 response with the Prometheus exposition text
+ */
+export function prometheusResponse(
+  metrics: Iterable<CircuitBreakerMetrics>,
+  options: PrometheusOptions = {},
+): Response {
+  return new Response(renderPrometheusMetrics(metrics, options), {
+    status: 200,
+    headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE },
+  })
+}
@@ -0,0 +1,239 @@
+import { Bulkhead } from '@/bulkhead'
+import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import { Errors } from '@/errors'
+import type { PolicyContext } from '@/pipeline'
+import {
+  PolicyGuard,
+  bulkheadPolicy,
+  circuitBreakerPolicy,
+  fallbackPolicy,
+  pipeline,
+  policy,
+  retryPolicy,
+  timeoutPolicy,
+} from '@/pipeline'
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+
+const breakerOptions = { failureThreshold: 2, successThreshold: 1, resetTimeoutMs: 1000 }
+
+/**
+ * A layer that records when calls enter it.
+ */
+const tracer = (name: string, entered: string[]) =>
+  policy({
+    name,
+    run: next => {
+      entered.push(name)
+      return next()
+    },
+  })
+
+describe('pipeline', () => {
+  it('should run layers in order, the first one outermost', async () => {
+    const entered: string[] = []
+    const composed = pipeline(tracer('a', entered), tracer('b', entered)).wrap(tracer('c', entered))
+    expect(composed.layerNames).toEqual(['a', 'b', 'c'])
+    await expect(composed.execute(async () => 'ok')).resolves.toBe('ok')
+    expect(entered).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should stop retrying when the breaker opens and report the breaker as handler', async () => {
+    const breaker = new CircuitBreaker(breakerOptions, 'api')
+    const contexts: PolicyContext[] = []
+    const guarded = pipeline(
+      retryPolicy({ maxAttempts: 5, baseDelayMs: 0, jitter: 'NONE' }),
+      circuitBreakerPolicy(breaker),
+    ).withHooks({ onFailure: (_err, context) => contexts.push({ ...context }) })
+    let calls = 0
+    await expect(
+      guarded.execute(async () => {
+        calls++
+        throw new Error('down')
+      }),
+    ).rejects.toThrow(Errors.CircuitOpenError)
+    expect(calls).toBe(2)
+    expect(contexts).toEqual([{ attempt: 3, handledBy: 'api', signal: undefined }])
+  })
+
+  it('should report the guarded call as handler when it succeeds', async () => {
+    const contexts: PolicyContext[] = []
+    const guarded = pipeline(
+      retryPolicy({ maxAttempts: 3, baseDelayMs: 0, jitter: 'NONE' }),
+      circuitBreakerPolicy(new CircuitBreaker(breakerOptions)),
+    ).withHooks({ onSuccess: context => contexts.push({ ...context }) })
+    let calls = 0
+    await guarded.execute(async () => {
+      if (++calls === 1) throw new Error('flaky')
+      return 'ok'
+    })
+    expect(contexts[0]).toMatchObject({ attempt: 2, handledBy: 'call' })
+  })
+
+  it('should serve fallbacks from the fallback layer or the breaker', async () => {
+    const breaker = new CircuitBreaker(breakerOptions, 'api')
+    breaker.forceOpen()
+    let handledBy: string | undefined
+    const withLayer = pipeline(
+      fallbackPolicy(() => 'cached'),
+      circuitBreakerPolicy(breaker),
+    ).withHooks({ onSuccess: context => (handledBy = context.handledBy) })
+    await expect(withLayer.execute(async () => 'fresh')).resolves.toBe('cached')
+    expect(handledBy).toBe('fallback')
+
+    const withOption = pipeline(
+      circuitBreakerPolicy(breaker, { fallback: () => 'stale' }),
+    ).withHooks({ onSuccess: context => (handledBy = context.handledBy) })
+    await expect(withOption.execute(async () => 'fresh')).resolves.toBe('stale')
+    expect(handledBy).toBe('api')
+  })
+
+  it('should type results as the function result or a fallback value', async () => {
+    const withFallback = pipeline(
+      fallbackPolicy(() => 'x'),
+      retryPolicy({ maxAttempts: 1, baseDelayMs: 0 }),
+    )
+    const result = withFallback.execute(async () => 42)
+    expectTypeOf(result).toEqualTypeOf<Promise<number | string>>()
+    await expect(result).resolves.toBe(42)
+
+    const breaker = new CircuitBreaker(breakerOptions)
+    breaker.forceOpen()
+    let args: unknown
+    const withOption = circuitBreakerPolicy(breaker, {
+      fallback: ctx => {
+        args = ctx.args
+        return null
+      },
+    })
+    expectTypeOf(withOption.execute(async () => 42)).toEqualTypeOf<Promise<number | null>>()
+    expectTypeOf(
+      pipeline(retryPolicy({ maxAttempts: 1, baseDelayMs: 0 })).execute(async () => 42),
+    ).toEqualTypeOf<Promise<number>>()
+    await expect(withOption.execute(async () => 42)).resolves.toBeNull()
+    expect(args).toEqual([])
+  })
+
+  it('should abort the signal handed to the call when the timeout layer expires', async () => {
+    const clock = new ManualClock()
+    let handledBy: string | undefined
+    let received: AbortSignal | undefined
+    const guarded = pipeline(timeoutPolicy(50, clock)).withHooks({
+      onFailure: (_err, context) => (handledBy = context.handledBy),
+    })
+    const pending = guarded.execute(context => {
+      received = context.signal
+      return new Promise<string>(() => {})
+    })
+    clock.advance(50)
+    await expect(pending).rejects.toThrow(Errors.TimeoutError)
+    expect(received?.aborted).toBe(true)
+    expect(handledBy).toBe('timeout')
+  })
+
+  it('should hand every retried attempt a fresh signal when an earlier one hangs', async () => {
+    const clock = new ManualClock()
+    const signals: AbortSignal[] = []
+    const guarded = pipeline(
+      retryPolicy({ maxAttempts: 2, baseDelayMs: 0, jitter: 'NONE', clock }),
+      timeoutPolicy(50, clock),
+    )
+    const pending = guarded.execute(async context => {
+      signals.push(context.signal!)
+      if (signals.length === 1) return new Promise<string>(() => {})
+      return `aborted at start: ${context.signal?.aborted}`
+    })
+    await vi.waitUntil(() => clock.pendingTimers > 0)
+    clock.advance(50)
+    await vi.waitUntil(() => clock.pendingTimers > 0)
+    clock.advance(0)
+    await expect(pending).resolves.toBe('aborted at start: false')
+    expect(signals[0]?.aborted).toBe(true)
+  })
+
+  it('should pass the caller signal to every layer', async () => {
+    const controller = new AbortController()
+    let received: AbortSignal | undefined
+    await pipeline(retryPolicy({ maxAttempts: 1, baseDelayMs: 0 })).execute(
+      async context => {
+        received = context.signal
+      },
+      { signal: controller.signal },
+    )
+    expect(received).toBe(controller.signal)
+  })
+
+  it('should report bulkhead rejections', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 0 }, 'db')
+    let handledBy: string | undefined
+    const guarded = pipeline(bulkheadPolicy(bulkhead)).withHooks({
+      onFailure: (_err, context) => (handledBy = context.handledBy),
+    })
+    await expect(guarded.execute(async () => 'ok')).rejects.toThrow(Errors.BulkheadRejectedError)
+    expect(handledBy).toBe('db')
+  })
+})
+
+describe('PolicyGuard', () => {
+  it('should run decorated methods through the policy', async () => {
+    const entered: string[] = []
+    const traced = tracer('trace', entered)
+    class Service {
+      policy = traced
+      async fetch(id: number): Promise<string> {
+        return `item ${id}`
+      }
+      async fetchDirect(id: number): Promise<string> {
+        return `item ${id}`
+      }
+    }
+    for (const [method, source] of [
+      ['fetch', 'policy'],
+      ['fetchDirect', traced],
+    ] as const) {
+      const desc = Object.getOwnPropertyDescriptor(Service.prototype, method)!
+      PolicyGuard(source)(Service.prototype, method, desc)
+      Object.defineProperty(Service.prototype, method, desc)
+    }
+    const service = new Service()
+    await expect(service.fetch(1)).resolves.toBe('item 1')
+    await expect(service.fetchDirect(2)).resolves.toBe('item 2')
+    expect(entered).toEqual(['trace', 'trace'])
+  })
+
+  it('should throw PolicyNotFoundError when the property holds no policy', async () => {
+    class Service {
+      async fetch(): Promise<string> {
+        return 'ok'
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'fetch')!
+    // @ts-expect-error the class has no such property
+    PolicyGuard('missing')(Service.prototype, 'fetch', desc)
+    Object.defineProperty(Service.prototype, 'fetch', desc)
+    await expect(new Service().fetch()).rejects.toThrow(
+      new Errors.PolicyNotFoundError('property "missing"'),
+    )
+    await expect(new Service().fetch()).rejects.toBeInstanceOf(Errors.PolicyNotFoundError)
+  })
+
+  it('should hand the timeout signal to the method', async () => {
+    vi.useFakeTimers()
+    let received: AbortSignal | undefined
+    class Service {
+      async hang(signal?: AbortSignal): Promise<string> {
+        received = signal
+        return new Promise<string>(() => {})
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'hang')!
+    PolicyGuard(pipeline(timeoutPolicy(10)))(Service.prototype, 'hang', desc)
+    Object.defineProperty(Service.prototype, 'hang', desc)
+    const pending = new Service().hang()
+    const assertion = expect(pending).rejects.toThrow(Errors.TimeoutError)
+    await vi.advanceTimersByTimeAsync(10)
+    await assertion
+    expect(received?.aborted).toBe(true)
+    vi.useRealTimers()
+  })
+})
@@ -0,0 +1,350 @@
+import type { Bulkhead } from '@/bulkhead'
+import type { CircuitBreaker } from '@/circuit-breaker'
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+import type { MethodGuard, PropertyHolder, PropertyName } from '@/decorator'
+import { Errors } from '@/errors'
+import { execute, guardMethod, invoke, withTimeout } from '@/execution'
+import { callHook } from '@/hooks'
+import { retry } from '@/retry'
+import type { RetryOptions } from '@/retry'
+import type { CircuitBreakerCallOptions, FallbackContext } from '@/types'
+
+/**
+ * State of one call through a policy, shared by every layer it passes.
+ */
+export interface PolicyContext {
+  /**
+   * Aborts the call. Hooks see the caller's signal; the guarded function sees the signal of its
+   * own invocation, which layers such as timeout combine with theirs.
+   */
+  signal?: AbortSignal
+  /** Current attempt, starting at 1 and counted up by a retry layer */
+  attempt: number
+  /**
+   * Layer that settled the call: `call` when the guarded function did, otherwise the layer that
+   * rejected it, timed it out or served a fallback
+   */
+  handledBy?: string
+}
+
+/**
+ * One layer of a policy, such as a breaker or a retry.
+ */
+export interface PolicyLayer {
+  /** Layer name reported in PolicyContext.handledBy */
+  readonly name: string
+  /**
+   * Runs the inner layers, possibly several times or not at all.
+   * @param next Runs the inner layers and finally the guarded function, aborting on the given
+   * signal, or on this layer's signal when none is given
+   * @param context The context shared by all layers of the call
+   * @param signal Aborts this invocation of the layer
+   */
+  run<R>(
+    next: (signal?: AbortSignal) => Promise<R>,
+    context: PolicyContext,
+    signal?: AbortSignal,
+  ): Promise<R>
+}
+
+/**
+ * Observability hooks for calls through a policy.
+ */
+export interface PolicyHooks {
+  /** The call resolved, possibly with a fallback value */
+  onSuccess?: (context: PolicyContext) => void
+  /** The call rejected */
+  onFailure?: (error: unknown, context: PolicyContext) => void
+  /** A hook threw or its promise rejected */
+  onHookError?: (error: unknown, meta: { name?: string; hook: string }) => void
+  /** Receives the promise of every async hook, such as a Worker's `ctx.waitUntil` */
+  waitUntil?: (promise: Promise<unknown>) => void
+}
+
+/**
+ * Options for Policy.execute.
+ */
+export interface PolicyExecuteOptions {
+  /** Aborts the call and any pending retry delay */
+  readonly signal?: AbortSignal
+}
+
+/**
+ * Type of the values the fallbacks of the given policies resolve to.
+ */
+export type PolicyFallback<P> = P extends Policy<infer F> ? F : never
+
+/**
+ * Resilience policies composed in an explicit order, outermost first.
+ * Policies are immutable: wrap() returns a new policy.
+ * @template F - Type of the values fallbacks may resolve to instead of the function's result
+ */
+export class Policy<F = never> {
+  /**
+   * @param layers The layers, outermost first
+   * @param hooks Optional observability hooks
+   */
+  constructor(
+    private readonly layers: readonly PolicyLayer[],
+    private readonly hooks: PolicyHooks = {},
+  ) {}
+
+  /**
+   * Nests other policies inside this one.
+   * @param inner Policies applied after this one, outermost first
+   * @returns The composed policy, keeping this policy's hooks
+   */
+  public wrap<P extends Policy<unknown>[]>(...inner: P): Policy<F | PolicyFallback<P[number]>> {
+    return new Policy([...this.layers, ...inner.flatMap(p => p.layers)], this.hooks)
+  }
+
+  /**
+   * Returns a copy of the policy reporting to the given hooks.
+   * @param hooks Observability hooks
+   */
+  public withHooks(hooks: PolicyHooks): Policy<F> {
+    return new Policy(this.layers, hooks)
+  }
+
+  /**
+   * Names of the layers, outermost first.
+   */
+  public get layerNames(): string[] {
+    return this.layers.map(layer => layer.name)
+  }
+
+  /**
+   * Runs a function through every layer of the policy.
+   * @param fn The guarded function, receiving the shared context and its signal
+   * @param options Optional signal aborting the call
+   * @returns The function's result, or a fallback value
+   */
+  public async execute<R>(
+    fn: (context: PolicyContext) => Promise<R>,
+    options: PolicyExecuteOptions = {},
+  ): Promise<R | F> {
+    const context: PolicyContext = { signal: options.signal, attempt: 1 }
+    // Signals are passed per invocation, so a retried attempt never sees an earlier one's
+    const run = (index: number, signal: AbortSignal | undefined): Promise<R> => {
+      const layer = this.layers[index]
+      if (!layer) {
+        context.handledBy = 'call'
+        return fn({ ...context, signal })
+      }
+      return layer.run((inner = signal) => run(index + 1, inner), context, signal)
+    }
+    try {
+      const result = await run(0, options.signal)
+      callHook(this.hooks, 'onSuccess', this.hooks.onSuccess, [context])
+      return result
+    } catch (err) {
+      callHook(this.hooks, 'onFailure', this.hooks.onFailure, [err, context])
+      throw err
+    }
+  }
+}
+
+/**
+ * Composes policies in order, the first one outermost.
+ * @param policies The policies to compose
+ * @returns The composed policy
+ */
+export function pipeline<P extends Policy<unknown>[]>(
+  ...policies: P
+): Policy<PolicyFallback<P[number]>> {
+  return new Policy([]).wrap(...policies)
+}
+
+/**
+ * Builds a policy from a custom layer.
+ * @template F - Type of the substitute values the layer may resolve to, if any
+ * @param layer The layer
+ */
+export function policy<F = never>(layer: PolicyLayer): Policy<F> {
+  return new Policy([layer])
+}
+
+/**
+ * Call options for circuitBreakerPolicy. A policy guards functions of any result type and
+ * never sees their arguments, so results are classified as unknown and a fallback's `args`
+ * is always empty.
+ * @template F - Type of the fallback value
+ */
+export interface CircuitBreakerPolicyOptions<F = never>
+  extends Omit<CircuitBreakerCallOptions<unknown, []>, 'fallback'> {
+  /** Serves a value for rejected, timed out and failed calls */
+  readonly fallback?: (context: FallbackContext<[]>) => F | Promise<F>
+}
+
+/**
+ * Guards calls with a circuit breaker, classifying and falling back like withCircuitBreaker.
+ * @param breaker The CircuitBreaker instance
+ * @param options Optional call options such as a timeout or fallback
+ */
+export function circuitBreakerPolicy<F = never>(
+  breaker: CircuitBreaker,
+  options: CircuitBreakerPolicyOptions<F> = {},
+): Policy<F> {
+  const name = breaker.name ?? 'circuitBreaker'
+  return policy<F>({
+    name,
+    async run<R>(
+      next: (signal?: AbortSignal) => Promise<R>,
+      context: PolicyContext,
+      signal?: AbortSignal,
+    ): Promise<R> {
+      const { fallback } = options
+      const callOptions = {
+        ...options,
+        fallback: fallback
+          ? (ctx: FallbackContext<[]>) => {
+              context.handledBy = name
+              return fallback(ctx)
+            }
+          : undefined,
+      } as CircuitBreakerCallOptions<R, []>
+      try {
+        return await execute(breaker, own => next(combine(signal, own)), callOptions, [])
+      } catch (err) {
+        if (err instanceof Errors.CircuitOpenError) context.handledBy = name
+        throw err
+      }
+    },
+  })
+}
+
+/**
+ * Retries failed calls with backoff, see withRetry. Aborts with the call's signal.
+ * @param options Retry options
+ */
+export function retryPolicy(options: RetryOptions): Policy {
+  return policy({
+    name: 'retry',
+    run: (next, context, signal) =>
+      retry(
+        attempt => {
+          context.attempt = attempt
+          return next()
+        },
+        { ...options, signal: options.signal ?? signal },
+      ),
+  })
+}
+
+/**
+ * Limits concurrency with a bulkhead.
+ * @param bulkhead The Bulkhead instance
+ */
+export function bulkheadPolicy(bulkhead: Bulkhead): Policy {
+  const name = bulkhead.name ?? 'bulkhead'
+  return policy({
+    name,
+    async run(next, context) {
+      try {
+        return await bulkhead.execute(next)
+      } catch (err) {
+        if (err instanceof Errors.BulkheadRejectedError) context.handledBy = name
+        throw err
+      }
+    },
+  })
+}
+
+/**
+ * Rejects calls with TimeoutError once they run longer than `timeoutMs`, aborting the
+ * signal handed to inner layers.
+ * @param timeoutMs Timeout in milliseconds
+ * @param clock Source of timers, defaults to systemClock
+ */
+export function timeoutPolicy(timeoutMs: number, clock: Clock = systemClock): Policy {
+  return policy({
+    name: 'timeout',
+    async run(next, context, signal) {
+      let own: AbortSignal | undefined
+      try {
+        return await withTimeout(
+          timeoutSignal => {
+            own = timeoutSignal
+            return next(combine(signal, timeoutSignal))
+          },
+          clock,
+          timeoutMs,
+        )
+      } catch (err) {
+        // Only a timeout of this layer aborts its own signal with the error
+        if (own?.aborted && own.reason === err) context.handledBy = 'timeout'
+        throw err
+      }
+    },
+  })
+}
+
+/**
+ * Serves a substitute value when the inner layers reject.
+ * The policy's execute resolves to the guarded function's result or the substitute's type.
+ * @param fallback Produces the substitute value from the error and the call context
+ */
+export function fallbackPolicy<F>(
+  fallback: (error: unknown, context: PolicyContext) => F | Promise<F>,
+): Policy<F> {
+  return policy<F>({
+    name: 'fallback',
+    async run<R>(next: () => Promise<R>, context: PolicyContext): Promise<R> {
+      try {
+        return await next()
+      } catch (err) {
+        const value = (await fallback(err, context)) as R
+        context.handledBy = 'fallback'
+        return value
+      }
+    },
+  })
+}
+
+/**
+ * Class method decorator applying a policy, the general form of CircuitBreakerGuard.
+ * Usable as a standard decorator or with experimentalDecorators enabled in tsconfig:
+ *
+ *   class MyService {
+ *     @PolicyGuard(pipeline(retryPolicy({ maxAttempts: 3, baseDelayMs: 100 }), circuitBreakerPolicy(breaker)))
+ *     async fetchData(url: string) { ... }
+ *   }
+ *
+ * The method receives the policy's signal as an extra trailing argument when one is set.
+ * A property name must name a public Policy property of the decorated class. If the property
+ * holds no policy at runtime, the call rejects with PolicyNotFoundError.
+ * Fallback values of the policy must fit the method's result type, which is not checked.
+ *
+ * @param source The policy, or the property name on the class instance holding it
+ * @returns A method decorator that runs the method through the policy
+ */
+export function PolicyGuard<K extends string>(
+  source: K,
+): MethodGuard<PropertyHolder<K, Policy<unknown>>>
+export function PolicyGuard<This = unknown>(
+  source: Policy<unknown> | PropertyName<This>,
+): MethodGuard<This>
+export function PolicyGuard<This = unknown>(
+  source: Policy<unknown> | PropertyName<This>,
+): MethodGuard<This> {
+  return guardMethod<This>((instance, method, args) => {
+    const resolved =
+      typeof source === 'string' ? (instance as Record<string, unknown>)[source] : source
+    if (!(resolved instanceof Policy)) {
+      throw new Errors.PolicyNotFoundError(`property "${String(source)}"`)
+    }
+    return resolved.execute(context => invoke(method, instance, args, context.signal))
+  })
+}
+
+/**
+ * Combines the signal a layer received with one of its own, for its inner layers.
+ */
+function combine(
+  outer: AbortSignal | undefined,
+  own: AbortSignal | undefined,
+): AbortSignal | undefined {
+  if (!own || !outer) return own ?? outer
+  return AbortSignal.any([outer, own])
+}
@@ -0,0 +1,124 @@
+import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import { CircuitBreakerGuard } from '@/decorator'
+import { CircuitBreakerRegistry, remoteCircuitBreakerFactory } from '@/registry'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerOptions,
+  VersionedStorageValue,
+} from '@/types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+describe('CircuitBreakerRegistry', () => {
+  const defaults: CircuitBreakerOptions = {
+    failureThreshold: 3,
+    successThreshold: 1,
+    resetTimeoutMs: 1000,
+  }
+  let transitions: Array<{ name?: string; status: string }>
+  let registry: CircuitBreakerRegistry
+
+  beforeEach(() => {
+    transitions = []
+    registry = new CircuitBreakerRegistry({
+      defaults,
+      overrides: { payments: { failureThreshold: 1 } },
+      hooks: {
+        onStateChange: (_prev, next, meta) =>
+          transitions.push({ name: meta.name, status: next.status }),
+      },
+    })
+  })
+
+  it('should create a breaker on first use and return it afterwards', () => {
+    const breaker = registry.get('search')
+    expect(breaker).toBeInstanceOf(CircuitBreaker)
+    expect(breaker.name).toBe('search')
+    expect(registry.get('search')).toBe(breaker)
+    expect(registry.has('search')).toBe(true)
+    expect(registry.find('other')).toBeUndefined()
+  })
+
+  it('should merge per-name overrides over the defaults', () => {
+    registry.get('payments').recordFailure()
+    registry.get('search').recordFailure()
+    expect(registry.get('payments').isOpen()).toBe(true)
+    expect(registry.get('search').isClosed()).toBe(true)
+  })
+
+  it('should share hooks across breakers', () => {
+    registry.get('payments').recordFailure()
+    registry.get('search').recordFailure()
+    expect(transitions).toEqual([
+      { name: 'payments', status: 'OPEN' },
+      { name: 'search', status: 'CLOSED' },
+    ])
+  })
+
+  it('should snapshot all states at once', () => {
+    registry.get('payments').recordFailure()
+    registry.get('search')
+    const snapshot = registry.snapshot()
+    expect(Object.keys(snapshot)).toEqual(['payments', 'search'])
+    expect(snapshot.payments?.status).toBe('OPEN')
+    expect(snapshot.search?.status).toBe('CLOSED')
+    expect(registry.names()).toEqual(['payments', 'search'])
+  })
+
+  it('should remove breakers', () => {
+    const breaker = registry.get('search')
+    expect(registry.remove('search')).toBe(true)
+    expect(registry.get('search')).not.toBe(breaker)
+  })
+
+  it('should dispose removed breakers', () => {
+    const clock = new ManualClock()
+    const timed = new CircuitBreakerRegistry({
+      defaults: { ...defaults, clock, autoHalfOpen: true },
+    })
+    const breaker = timed.get('payments')
+    for (let i = 0; i < defaults.failureThreshold; i++) breaker.recordFailure()
+    expect(clock.pendingTimers).toBe(1)
+    timed.remove('payments')
+    expect(clock.pendingTimers).toBe(0)
+  })
+
+  it('should create remote breakers with the remote factory', async () => {
+    const store = new Map<string, VersionedStorageValue>()
+    const storage: AsyncCircuitBreakerStorage = {
+      async put(key, value) {
+        store.set(key, { value, version: '1' })
+        return '1'
+      },
+      async get(key) {
+        return store.get(key)
+      },
+      async delete(key) {
+        store.delete(key)
+      },
+    }
+    const remote = new CircuitBreakerRegistry({
+      defaults,
+      factory: remoteCircuitBreakerFactory(storage),
+    })
+    const breaker = remote.get('inventory')
+    expect(breaker).toBeInstanceOf(RemoteCircuitBreaker)
+    await breaker.save()
+    expect(store.has('inventory')).toBe(true)
+  })
+
+  it('should let CircuitBreakerGuard resolve breakers by name', async () => {
+    class Service {
+      async pay(): Promise<string> {
+        throw new Error('fail')
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'pay')!
+    CircuitBreakerGuard({ registry, name: 'payments' })(Service.prototype, 'pay', desc)
+    Object.defineProperty(Service.prototype, 'pay', desc)
+    await expect(new Service().pay()).rejects.toThrow('fail')
+    expect(registry.get('payments').isOpen()).toBe(true)
+    await expect(new Service().pay()).rejects.toThrow('Circuit breaker is open')
+  })
+})
@@ -0,0 +1,139 @@
+import { CircuitBreaker } from '@/circuit-breaker'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerHooks,
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  InvalidStatePolicy,
+} from '@/types'
+
+/**
+ * Creates a breaker for a registry entry.
+ */
+export type CircuitBreakerFactory<B extends CircuitBreaker = CircuitBreaker> = (
+  name: string,
+  options: CircuitBreakerOptions,
+  hooks?: CircuitBreakerHooks,
+) => B
+
+/**
+ * Configuration for a CircuitBreakerRegistry.
+ */
+export interface CircuitBreakerRegistryOptions<B extends CircuitBreaker = CircuitBreaker> {
+  /** Options every breaker starts from */
+  readonly defaults: CircuitBreakerOptions
+  /** Per-name options merged over the defaults */
+  readonly overrides?: Readonly<Record<string, Partial<CircuitBreakerOptions>>>
+  /** Hooks shared by every breaker in the registry */
+  readonly hooks?: CircuitBreakerHooks
+  /** Creates the breakers, defaults to in-memory CircuitBreaker instances */
+  readonly factory?: CircuitBreakerFactory<B>
+}
+
+/**
+ * Points a decorator at a breaker held by a registry instead of an instance property.
+ */
+export interface RegistryBreakerReference<B extends CircuitBreaker = CircuitBreaker> {
+  readonly registry: CircuitBreakerRegistry<B>
+  readonly name: string
+}
+
+/**
+ * Factory for in-memory CircuitBreaker instances.
+ */
+export const inMemoryCircuitBreakerFactory: CircuitBreakerFactory = (name, options, hooks) =>
+  new CircuitBreaker(options, name, hooks)
+
+/**
+ * Creates a factory for RemoteCircuitBreaker instances persisted in the given storage,
+ * using each breaker's name as its storage key.
+ * @param storage Async storage adapter shared by the breakers
+ * @param invalidStatePolicy What load() does with invalid stored state
+ */
+export function remoteCircuitBreakerFactory(
+  storage: AsyncCircuitBreakerStorage,
+  invalidStatePolicy?: InvalidStatePolicy,
+): CircuitBreakerFactory<RemoteCircuitBreaker> {
+  return (name, options, hooks) =>
+    new RemoteCircuitBreaker({ ...options, invalidStatePolicy }, storage, name, hooks)
+}
+
+/**
+ * Holds named circuit breakers, creating each on first use from the default options
+ * merged with its per-name overrides.
+ */
+export class CircuitBreakerRegistry<B extends CircuitBreaker = CircuitBreaker> {
+  private readonly breakers = new Map<string, B>()
+
+  /**
+   * @param config Default options, per-name overrides, shared hooks and breaker factory
+   */
+  constructor(private readonly config: CircuitBreakerRegistryOptions<B>) {}
+
+  /**
+   * Returns the breaker registered under `name`, creating it if needed.
+   * @param name The breaker name
+   * @param options Options merged over the defaults and overrides when the breaker is created
+   * @returns The breaker
+   */
+  public get(name: string, options?: Partial<CircuitBreakerOptions>): B {
+    const existing = this.breakers.get(name)
+    if (existing) return existing
+    const factory = (this.config.factory ??
+      inMemoryCircuitBreakerFactory) as CircuitBreakerFactory<B>
+    const breaker = factory(
+      name,
+      { ...this.config.defaults, ...this.config.overrides?.[name], ...options },
+      this.config.hooks,
+    )
+    this.breakers.set(name, breaker)
+    return breaker
+  }
+
+  /**
+   * Returns the breaker registered under `name` without creating it.
+   */
+  public find(name: string): B | undefined {
+    return this.breakers.get(name)
+  }
+
+  /**
+   * Returns true if a breaker is registered under `name`.
+   */
+  public has(name: string): boolean {
+    return this.breakers.has(name)
+  }
+
+  /**
+   * Removes the breaker registered under `name` and disposes it.
+   * @returns True if a breaker was removed
+   */
+  public remove(name: string): boolean {
+    this.breakers.get(name)?.dispose()
+    return this.breakers.delete(name)
+  }
+
+  /**
+   * Returns the names of all registered breakers, in creation order.
+   */
+  public names(): string[] {
+    return [...this.breakers.keys()]
+  }
+
+  /**
+   * Returns all registered breakers, in creation order.
+   */
+  public list(): B[] {
+    return [...this.breakers.values()]
+  }
+
+  /**
+   * Returns a snapshot of every registered breaker's state, keyed by name.
+   */
+  public snapshot(): Record<string, CircuitBreakerState> {
+    return Object.fromEntries(
+      [...this.breakers].map(([name, breaker]) => [name, breaker.getState()]),
+    )
+  }
+}
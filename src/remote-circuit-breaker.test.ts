@@ -1,3 +1,4 @@
+import { ManualClock } from '@/clock'
 import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
 import type {
   AsyncCircuitBreakerStorage,
@@ -10,7 +11,7 @@ import { Errors } from './errors'
 
 class MockStorage implements AsyncCircuitBreakerStorage {
   private store = new Map<string, VersionedStorageValue>()
-  async put(key: string, value: CircuitBreakerState, version?: string): Promise<string> {
+  async put(key: string, value: CircuitBreakerState, version?: string | null): Promise<string> {
     const current = this.store.get(key)
     // If version is provided, check for concurrency conflict
     if (version !== undefined && current && current.version !== version) {
@@ -82,4 +83,155 @@ describe('RemoteCircuitBreaker', () => {
     expect(loaded).toBeDefined()
     expect(loaded?.status).toBe('CLOSED')
   })
+  it('should fail with ConcurrencyConflictError when the stored version changed', async () => {
+    await breaker.save()
+    const other = new RemoteCircuitBreaker(options, storage, name)
+    await other.load()
+    other.recordFailure()
+    await other.save()
+    breaker.recordFailure()
+    await expect(breaker.save()).rejects.toThrow(Errors.ConcurrencyConflictError)
+  })
+
+  it('should save after reloading the latest version', async () => {
+    await breaker.save()
+    const other = new RemoteCircuitBreaker(options, storage, name)
+    await other.load()
+    await other.save()
+    await breaker.load()
+    await expect(breaker.save()).resolves.toBeUndefined()
+  })
+
+  it('should re-apply the transition on conflict in saveWithRetry', async () => {
+    const merged = new RemoteCircuitBreaker({ ...options, failureThreshold: 3 }, storage, name)
+    await merged.save()
+    const other = new RemoteCircuitBreaker({ ...options, failureThreshold: 3 }, storage, name)
+    await other.load()
+    await other.saveWithRetry(b => b.recordFailure())
+    await merged.saveWithRetry(b => b.recordFailure())
+    expect(merged.getState().failureCount).toBe(2)
+    expect((await storage.get(name))?.value.failureCount).toBe(2)
+  })
+
+  it('should give up after maxAttempts conflicting saves', async () => {
+    await breaker.save()
+    const conflicting: AsyncCircuitBreakerStorage = {
+      put: async () => {
+        throw new Errors.ConcurrencyConflictError(name)
+      },
+      get: key => storage.get(key),
+      delete: key => storage.delete(key),
+    }
+    const attempts: number[] = []
+    const contended = new RemoteCircuitBreaker(options, conflicting, name)
+    await expect(
+      contended.saveWithRetry(b => attempts.push(b.getState().failureCount), { maxAttempts: 2 }),
+    ).rejects.toThrow(Errors.ConcurrencyConflictError)
+    expect(attempts.length).toBe(2)
+  })
+  it('should stamp saved state with the schema version', async () => {
+    await breaker.save()
+    expect((await storage.get(name))?.value.schemaVersion).toBe(1)
+  })
+
+  it('should propagate operator overrides through storage', async () => {
+    breaker.forceOpen({ durationMs: 60_000 })
+    await breaker.save()
+    const other = new RemoteCircuitBreaker(options, storage, name)
+    await other.sync()
+    expect(other.getState().override).toBe('FORCED_OPEN')
+    expect(() => other.assertCanExecute()).toThrow(Errors.CircuitOpenError)
+  })
+
+  it('should merge concurrent outcomes from several instances on persist', async () => {
+    const first = new RemoteCircuitBreaker(options, storage, name)
+    const second = new RemoteCircuitBreaker(options, storage, name)
+    await first.sync()
+    await second.sync()
+    first.recordFailure()
+    second.recordFailure()
+    await first.persist()
+    await second.persist()
+    expect((await storage.get(name))?.value.status).toBe('OPEN')
+    expect(second.isOpen()).toBe(true)
+  })
+
+  it('should keep transitions that failed to save across a sync', async () => {
+    const errors: unknown[] = []
+    let down = false
+    const flaky: AsyncCircuitBreakerStorage = {
+      put: (key, value, version) =>
+        down ? Promise.reject(new Error('down')) : storage.put(key, value, version),
+      get: key => storage.get(key),
+      delete: key => storage.delete(key),
+    }
+    await breaker.save()
+    const local = new RemoteCircuitBreaker(options, flaky, name, {
+      onError: err => errors.push(err),
+    })
+    await local.sync()
+    down = true
+    local.recordFailure()
+    await local.persist()
+    expect(errors).toHaveLength(1)
+    down = false
+    await local.sync()
+    expect(local.getState().failureCount).toBe(1)
+    await local.persist()
+    expect((await storage.get(name))?.value.failureCount).toBe(1)
+  })
+
+  it('should free a trial slot whose holder never releases it', async () => {
+    const clock = new ManualClock()
+    const probeOptions = { ...options, failureThreshold: 1, halfOpenMaxCalls: 1, clock }
+    const holder = new RemoteCircuitBreaker(probeOptions, storage, name)
+    const other = new RemoteCircuitBreaker(probeOptions, storage, name)
+    holder.recordFailure()
+    await holder.persist()
+    clock.advance(1000)
+    await holder.sync()
+    holder.acquire()
+    await holder.persist()
+
+    await other.sync()
+    expect(() => other.acquire()).toThrow(Errors.CircuitOpenError)
+    clock.advance(1000)
+    await other.sync()
+    expect(() => other.acquire()).not.toThrow()
+    expect(other.getState()).toMatchObject({ status: 'HALF_OPEN', halfOpenCalls: 1 })
+  })
+
+  describe('invalid stored state', () => {
+    const corrupt = { status: 'BROKEN', failureCount: -1, successCount: 0 }
+
+    beforeEach(async () => {
+      await storage.put(name, corrupt as unknown as CircuitBreakerState)
+    })
+
+    it('should throw InvalidStateError by default', async () => {
+      await expect(breaker.load()).rejects.toThrow(Errors.InvalidStateError)
+    })
+
+    it('should reset to CLOSED with the RESET policy', async () => {
+      const errors: string[] = []
+      const resetting = new RemoteCircuitBreaker(
+        { ...options, invalidStatePolicy: 'RESET' },
+        storage,
+        name,
+        { onError: (_err, meta) => errors.push(meta.operation) },
+      )
+      expect(await resetting.load()).toEqual({ status: 'CLOSED', failureCount: 0, successCount: 0 })
+      expect(errors).toEqual(['load'])
+      await expect(resetting.save()).resolves.toBeUndefined()
+    })
+
+    it('should treat the record as missing with the IGNORE policy', async () => {
+      const ignoring = new RemoteCircuitBreaker(
+        { ...options, invalidStatePolicy: 'IGNORE' },
+        storage,
+        name,
+      )
+      expect(await ignoring.load()).toBeUndefined()
+    })
+  })
 })
@@ -1,45 +1,260 @@
 import { CircuitBreaker } from '@/circuit-breaker'
 import { Errors } from '@/errors'
+import { STATE_SCHEMA_VERSION, parseCircuitBreakerState } from '@/state-schema'
 import type {
   AsyncCircuitBreakerStorage,
+  CallMetadata,
+  CircuitBreakerHookName,
   CircuitBreakerHooks,
-  CircuitBreakerOptions,
   CircuitBreakerState,
+  InvalidStatePolicy,
+  OverrideOptions,
+  RemoteCircuitBreakerOptions,
+  SaveWithRetryOptions,
+  StateChangeReason,
+  VersionedStorageValue,
 } from '@/types'
 
+const DEFAULT_SAVE_ATTEMPTS = 3
+
+/**
+ * Local transitions kept for re-applying on a newer stored state; older ones are dropped.
+ */
+const MAX_PENDING_TRANSITIONS = 100
+
 /**
  * A circuit breaker with remote persistence using an async storage adapter.
+ * Transitions made since the last save are remembered, so that adopting a newer stored
+ * state re-applies them instead of discarding them.
  */
 export class RemoteCircuitBreaker extends CircuitBreaker {
+  private version?: string | null
+  private dirty = false
+  /** Transitions made since the last save, re-applied when a newer stored state is adopted */
+  private pending: Array<() => void> = []
+  private replaying = false
+  private syncedAt?: number
+  private readonly invalidStatePolicy: InvalidStatePolicy
+
   /**
-   * @param options Circuit breaker configuration options
+   * @param options Circuit breaker configuration options, including the invalid state policy
    * @param storage Async storage adapter implementing getItem/setItem
    * @param name Required name for the circuit breaker instance (used as storage key)
    */
   constructor(
-    options: CircuitBreakerOptions,
+    options: RemoteCircuitBreakerOptions,
     private storage: AsyncCircuitBreakerStorage,
     name: string,
     hooks?: CircuitBreakerHooks,
   ) {
     if (!name) throw new Error('RemoteCircuitBreaker requires a non-empty name')
     super(options, name, hooks)
+    this.invalidStatePolicy = options.invalidStatePolicy ?? 'THROW'
+  }
+
+  /**
+   * Replace the current state and mark it as not yet persisted.
+   * @param next The new state to set
+   * @param reason Why the state changed
+   * @param now Timestamp of the change
+   */
+  protected setState(next: CircuitBreakerState, reason: StateChangeReason, now?: number): void {
+    super.setState(next, reason, now)
+    this.dirty = true
+  }
+
+  /**
+   * Adopts a state loaded from storage as the local state, without reporting a transition.
+   * @param state The state to adopt
+   */
+  public hydrate(state: CircuitBreakerState): void {
+    this.replaceState(state)
+    this.dirty = false
+    this.pending = []
+  }
+
+  // Transitions are tracked until saved, see track()
+  public acquire(): number | undefined {
+    return this.track(() => super.acquire())
+  }
+
+  public release(period?: number): void {
+    this.track(() => super.release(period))
+  }
+
+  public recordSuccess(call?: CallMetadata): void {
+    this.track(() => super.recordSuccess(call))
+  }
+
+  public recordFailure(call?: CallMetadata): void {
+    this.track(() => super.recordFailure(call))
+  }
+
+  public holdOpen(delayMs: number): void {
+    this.track(() => super.holdOpen(delayMs))
+  }
+
+  public forceOpen(options: OverrideOptions = {}): void {
+    this.track(() => super.forceOpen(options))
+  }
+
+  public forceClose(options: OverrideOptions = {}): void {
+    this.track(() => super.forceClose(options))
+  }
+
+  public disable(options: OverrideOptions = {}): void {
+    this.track(() => super.disable(options))
+  }
+
+  public reset(): void {
+    this.track(() => super.reset())
+  }
+
+  /**
+   * Hooks stay silent while saved transitions are re-applied, since they already reported them.
+   */
+  protected emit<E extends CircuitBreakerHookName>(
+    event: E,
+    ...args: Parameters<NonNullable<CircuitBreakerHooks[E]>>
+  ): void {
+    if (!this.replaying) super.emit(event, ...args)
+  }
+
+  /**
+   * Runs a transition and remembers it until the next save, unless it is being re-applied.
+   * @param transition The transition; rejected ones, such as a refused acquire, are not kept
+   * @returns The transition's result
+   */
+  private track<T>(transition: () => T): T {
+    const result = transition()
+    if (!this.replaying) {
+      this.pending.push(transition)
+      if (this.pending.length > MAX_PENDING_TRANSITIONS) this.pending.shift()
+    }
+    return result
+  }
+
+  /**
+   * Adopts a stored state and re-applies the transitions not yet saved on top of it, so that
+   * concurrent outcomes from several instances add up instead of overwriting each other.
+   * @param state The stored state
+   */
+  private rebase(state: CircuitBreakerState): void {
+    const pending = this.pending
+    this.hydrate(state)
+    this.replaying = true
+    try {
+      for (const transition of pending) {
+        try {
+          transition()
+        } catch {
+          // No longer applicable to the stored state, such as an acquire on a now OPEN circuit
+        }
+      }
+    } finally {
+      this.replaying = false
+    }
+    this.pending = pending
+  }
+
+  /**
+   * Hydrate the local state from storage, unless it was synced within `cacheTtlMs`.
+   * Transitions not yet saved are re-applied on top of the stored state.
+   * If storage is unavailable, the error is reported through onError and the
+   * local state is kept.
+   * @param cacheTtlMs How long a previous sync stays fresh, defaults to 0 (always reload)
+   */
+  public async sync(cacheTtlMs = 0): Promise<void> {
+    const now = this.clock.now()
+    if (this.syncedAt !== undefined && now - this.syncedAt < cacheTtlMs) return
+    this.syncedAt = now
+    try {
+      const latest = await this.load()
+      if (latest) this.rebase(latest)
+    } catch (err) {
+      this.emit('onError', err, { name: this.name, operation: 'sync' })
+    }
+  }
+
+  /**
+   * Save the local state if a transition changed it since the last sync or save.
+   * On a version conflict the stored state is reloaded and the unsaved transitions are
+   * re-applied on top of it before saving again, like saveWithRetry. Other storage errors,
+   * and conflicts on every attempt, are reported through onError; the transitions stay
+   * pending and are re-applied by the next sync or persist.
+   */
+  public async persist(): Promise<void> {
+    if (!this.dirty) return
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.save()
+        return
+      } catch (err) {
+        if (!(err instanceof Errors.ConcurrencyConflictError) || attempt >= DEFAULT_SAVE_ATTEMPTS) {
+          this.emit('onError', err, { name: this.name, operation: 'persist' })
+          return
+        }
+      }
+      try {
+        this.rebase((await this.load()) ?? { status: 'CLOSED', failureCount: 0, successCount: 0 })
+      } catch (err) {
+        this.emit('onError', err, { name: this.name, operation: 'persist' })
+        return
+      }
+    }
   }
 
   /**
    * Persist the current state to storage using optimistic concurrency control.
+   * The write is conditional on the version seen by the last load or save, or on the key
+   * still being absent when the last load found no record, and the state is stamped with
+   * the current schema version.
    * @throws StorageOperationError if storage fails
    * @throws ConcurrencyConflictError if version conflict detected
    */
   public async save(): Promise<void> {
     try {
-      await this.storage.put(this.name!, this.state)
+      this.version = await this.storage.put(
+        this.name!,
+        { ...this.state, schemaVersion: STATE_SCHEMA_VERSION },
+        this.version,
+      )
+      this.dirty = false
+      this.pending = []
     } catch (err) {
       if (err instanceof Errors.ConcurrencyConflictError) throw err
       throw new Errors.StorageOperationError('Failed to save circuit breaker state', err)
     }
   }
 
+  /**
+   * Apply a transition and persist it, retrying on version conflicts.
+   * On conflict the latest state is reloaded and adopted, and the transition is re-applied
+   * on top of it (e.g. `b => b.recordFailure()` merges into the stored failure count).
+   * @param transition The pending transition to apply before each save attempt
+   * @param options Retry options
+   * @throws ConcurrencyConflictError if every attempt conflicts
+   * @throws StorageOperationError if storage fails
+   */
+  public async saveWithRetry(
+    transition: (breaker: this) => void,
+    options: SaveWithRetryOptions = {},
+  ): Promise<void> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_SAVE_ATTEMPTS
+    transition(this)
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.save()
+        return
+      } catch (err) {
+        if (!(err instanceof Errors.ConcurrencyConflictError) || attempt >= maxAttempts) throw err
+      }
+      const latest = await this.load()
+      this.hydrate(latest ?? { status: 'CLOSED', failureCount: 0, successCount: 0 })
+      transition(this)
+    }
+  }
+
   /**
    * Persist the current state only if the name does not already exist in storage.
    * @throws ItemAlreadyExistsError if the key exists
@@ -60,15 +275,28 @@ export class RemoteCircuitBreaker extends CircuitBreaker {
 
   /**
    * Load and validate state from storage, tracking version for concurrency control.
-   * @throws StorageOperationError if storage or validation fails
+   * Older schema versions are migrated. Invalid records are handled per `invalidStatePolicy`:
+   * THROW rethrows, RESET returns a fresh CLOSED state and IGNORE returns undefined, the
+   * latter two reporting the error through onError.
+   * @throws StorageOperationError if storage fails
+   * @throws InvalidStateError if the stored state is invalid and the policy is THROW
    */
   public async load(): Promise<CircuitBreakerState | undefined> {
+    let raw: VersionedStorageValue | undefined
     try {
-      const raw = await this.storage.get(this.name!)
-      if (!raw) return undefined
-      return raw.value
+      raw = await this.storage.get(this.name!)
     } catch (err) {
       throw new Errors.StorageOperationError('Failed to load circuit breaker state', err)
     }
+    this.version = raw ? raw.version : null
+    if (!raw) return undefined
+    try {
+      return parseCircuitBreakerState(this.name!, raw.value)
+    } catch (err) {
+      if (this.invalidStatePolicy === 'THROW') throw err
+      this.emit('onError', err, { name: this.name, operation: 'load' })
+      if (this.invalidStatePolicy === 'IGNORE') return undefined
+      return { status: 'CLOSED', failureCount: 0, successCount: 0 }
+    }
   }
 }
@@ -0,0 +1,174 @@
+import { CircuitBreaker } from '@/circuit-breaker'
+import { Errors } from '@/errors'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import { RemoteCircuitBreakerGuard, withRemoteCircuitBreaker } from '@/remote-decorator'
+import type {
+  AsyncCircuitBreakerStorage,
+  CircuitBreakerOptions,
+  CircuitBreakerState,
+  VersionedStorageValue,
+} from '@/types'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+class CountingStorage implements AsyncCircuitBreakerStorage {
+  readonly store = new Map<string, VersionedStorageValue>()
+  gets = 0
+  puts = 0
+  private nextVersion = 0
+  async put(key: string, value: CircuitBreakerState, version?: string | null): Promise<string> {
+    this.puts++
+    const current = this.store.get(key)
+    if (version !== undefined && current && current.version !== version) {
+      throw new Errors.ConcurrencyConflictError(key)
+    }
+    const newVersion = String(++this.nextVersion)
+    this.store.set(key, { value, version: newVersion })
+    return newVersion
+  }
+  async get(key: string): Promise<VersionedStorageValue | undefined> {
+    this.gets++
+    return this.store.get(key)
+  }
+  async delete(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+}
+
+describe('withRemoteCircuitBreaker', () => {
+  const options: CircuitBreakerOptions = {
+    failureThreshold: 1,
+    successThreshold: 1,
+    resetTimeoutMs: 60_000,
+  }
+  const name = 'remote-cb'
+  let storage: CountingStorage
+  let breaker: RemoteCircuitBreaker
+
+  beforeEach(() => {
+    storage = new CountingStorage()
+    breaker = new RemoteCircuitBreaker(options, storage, name)
+  })
+
+  it('should hydrate the breaker from storage before calling', async () => {
+    await storage.put(name, {
+      status: 'OPEN',
+      failureCount: 0,
+      successCount: 0,
+      openedAt: Date.now(),
+    })
+    let calls = 0
+    const wrapped = withRemoteCircuitBreaker(breaker, async () => {
+      calls++
+      return 'ok'
+    })
+    await expect(wrapped()).rejects.toBeInstanceOf(Errors.CircuitOpenError)
+    expect(calls).toBe(0)
+  })
+
+  it('should only persist when a transition changed the state', async () => {
+    const succeed = withRemoteCircuitBreaker(breaker, async () => 'ok')
+    await succeed()
+    expect(storage.puts).toBe(0)
+    const fail = withRemoteCircuitBreaker(breaker, async () => {
+      throw new Error('fail')
+    })
+    await expect(fail()).rejects.toThrow('fail')
+    expect(storage.puts).toBe(1)
+    expect(storage.store.get(name)?.value.status).toBe('OPEN')
+  })
+
+  it('should share an opened circuit with other instances', async () => {
+    const other = new RemoteCircuitBreaker(options, storage, name)
+    const fail = withRemoteCircuitBreaker(breaker, async () => {
+      throw new Error('fail')
+    })
+    await expect(fail()).rejects.toThrow('fail')
+    const wrapped = withRemoteCircuitBreaker(other, async () => 'ok')
+    await expect(wrapped()).rejects.toBeInstanceOf(Errors.CircuitOpenError)
+  })
+
+  it('should reuse the loaded state within cacheTtlMs', async () => {
+    const wrapped = withRemoteCircuitBreaker(breaker, async () => 'ok', { cacheTtlMs: 60_000 })
+    await wrapped()
+    await wrapped()
+    expect(storage.gets).toBe(1)
+  })
+
+  it('should re-apply the outcome on the stored state when persisting conflicts', async () => {
+    await breaker.save()
+    await breaker.sync()
+    const other = new RemoteCircuitBreaker(options, storage, name)
+    await other.load()
+    await other.save()
+    const fail = withRemoteCircuitBreaker(
+      breaker,
+      async () => {
+        throw new Error('fail')
+      },
+      { cacheTtlMs: 60_000 },
+    )
+    await expect(fail()).rejects.toThrow('fail')
+    expect(breaker.getState().status).toBe('OPEN')
+    expect(storage.store.get(name)).toMatchObject({ value: { status: 'OPEN' }, version: '3' })
+  })
+
+  it('should degrade to local state when storage is unavailable', async () => {
+    const operations: string[] = []
+    const unavailable: AsyncCircuitBreakerStorage = {
+      async put() {
+        throw new Error('down')
+      },
+      async get() {
+        throw new Error('down')
+      },
+      async delete() {
+        throw new Error('down')
+      },
+    }
+    const local = new RemoteCircuitBreaker(options, unavailable, name, {
+      onError: (_err, meta) => operations.push(meta.operation),
+    })
+    const fail = withRemoteCircuitBreaker(local, async () => {
+      throw new Error('fail')
+    })
+    await expect(fail()).rejects.toThrow('fail')
+    expect(local.isOpen()).toBe(true)
+    expect(operations).toEqual(['sync', 'persist'])
+    await expect(fail()).rejects.toBeInstanceOf(Errors.CircuitOpenError)
+  })
+})
+
+describe('RemoteCircuitBreakerGuard (class method decorator)', () => {
+  it('should persist transitions from decorated methods', async () => {
+    const storage = new CountingStorage()
+    const breaker = new RemoteCircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 60_000 },
+      storage,
+      'guarded',
+    )
+    class Service {
+      breaker = breaker
+      async fail(): Promise<string> {
+        throw new Error('fail')
+      }
+    }
+    const desc = Object.getOwnPropertyDescriptor(Service.prototype, 'fail')!
+    RemoteCircuitBreakerGuard('breaker')(Service.prototype, 'fail', desc)
+    Object.defineProperty(Service.prototype, 'fail', desc)
+    await expect(new Service().fail()).rejects.toThrow('fail')
+    expect(storage.store.get('guarded')?.value.status).toBe('OPEN')
+  })
+  it('should reject in-memory breakers with BreakerNotFoundError', async () => {
+    class Service {
+      breaker = new CircuitBreaker({ failureThreshold: 1, successThreshold: 1, resetTimeoutMs: 1 })
+      // @ts-expect-error the property holds an in-memory breaker
+      @RemoteCircuitBreakerGuard('breaker')
+      async load(): Promise<string> {
+        return 'ok'
+      }
+    }
+    await expect(new Service().load()).rejects.toThrow(
+      'No RemoteCircuitBreaker found at property "breaker"',
+    )
+  })
+})
@@ -0,0 +1,84 @@
+import type { BreakerSource, MethodGuard, PropertyHolder } from '@/decorator'
+import { executeRemote, guardMethod, invoke, resolveBreaker } from '@/execution'
+import { RemoteCircuitBreaker } from '@/remote-circuit-breaker'
+import type { RemoteCircuitBreakerCallOptions, TimedCallOptions, UntimedCallOptions } from '@/types'
+
+/**
+ * Decorator to wrap an async function with remote circuit breaker logic.
+ * Hydrates the breaker from storage before each call (reusing it for `cacheTtlMs`),
+ * applies the same logic as withCircuitBreaker, and persists the state only when a
+ * transition changed it. If storage is unavailable the breaker degrades to its
+ * local state and reports the error through onError.
+ *
+ * @template Args - Argument types of the wrapped function
+ * @template R - Return type of the wrapped function
+ * @param breaker The RemoteCircuitBreaker instance
+ * @param fn The async function to wrap
+ * @param options Optional per-call options such as a cache TTL, timeout or fallback
+ * @returns A function that applies remote circuit breaker logic to the original function
+ */
+export function withRemoteCircuitBreaker<Args extends unknown[], R>(
+  breaker: RemoteCircuitBreaker,
+  fn: (...args: [...Args, AbortSignal]) => Promise<R>,
+  options: TimedCallOptions<RemoteCircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
+export function withRemoteCircuitBreaker<Args extends unknown[], R>(
+  breaker: RemoteCircuitBreaker,
+  fn: (...args: Args) => Promise<R>,
+  options?: UntimedCallOptions<RemoteCircuitBreakerCallOptions<R, Args>>,
+): (...args: Args) => Promise<R>
+export function withRemoteCircuitBreaker<Args extends unknown[], R>(
+  breaker: RemoteCircuitBreaker,
+  fn: (...args: Args) => Promise<R>,
+  options: RemoteCircuitBreakerCallOptions<R, Args> = {},
+): (...args: Args) => Promise<R> {
+  return async (...args: Args): Promise<R> =>
+    executeRemote(breaker, signal => invoke(fn, undefined, args, signal), options, args)
+}
+
+/**
+ * Class method decorator for remote circuit breaker protection, usable as a standard
+ * decorator or with experimentalDecorators enabled in tsconfig:
+ *
+ *   class MyService {
+ *     constructor(readonly breaker: RemoteCircuitBreaker) {}
+ *
+ *     @RemoteCircuitBreakerGuard('breaker', { cacheTtlMs: 1000 })
+ *     async fetchData(url: string) { ... }
+ *   }
+ *
+ * A property name must name a public RemoteCircuitBreaker property of the decorated class.
+ *
+ * @param breakerSource The property name, getter, or a reference to a registry created with
+ *   remoteCircuitBreakerFactory
+ * @param options Optional per-call options such as a cache TTL, timeout or fallback
+ * @returns A method decorator that applies remote circuit breaker logic
+ * @throws BreakerNotFoundError from the decorated method if the source holds no
+ *   RemoteCircuitBreaker
+ */
+export function RemoteCircuitBreakerGuard<K extends string>(
+  breakerSource: K,
+  options?: RemoteCircuitBreakerCallOptions,
+): MethodGuard<PropertyHolder<K, RemoteCircuitBreaker>>
+export function RemoteCircuitBreakerGuard<This = unknown>(
+  breakerSource: BreakerSource<This, RemoteCircuitBreaker>,
+  options?: RemoteCircuitBreakerCallOptions,
+): MethodGuard<This>
+export function RemoteCircuitBreakerGuard<This = unknown>(
+  breakerSource: BreakerSource<This, RemoteCircuitBreaker>,
+  options: RemoteCircuitBreakerCallOptions = {},
+): MethodGuard<This> {
+  return guardMethod<This>(
+    <Args extends unknown[], R>(
+      instance: This,
+      method: (this: This, ...args: Args) => Promise<R>,
+      args: Args,
+    ) =>
+      executeRemote(
+        resolveBreaker(instance, breakerSource, RemoteCircuitBreaker),
+        signal => invoke(method, instance, args, signal),
+        options as RemoteCircuitBreakerCallOptions<R, Args>,
+        args,
+      ),
+  )
+}
@@ -0,0 +1,167 @@
+import { computeRetryDelay } from '@/backoff'
+import { CircuitBreaker } from '@/circuit-breaker'
+import { ManualClock } from '@/clock'
+import { withCircuitBreaker } from '@/decorator'
+import { Errors } from '@/errors'
+import { RetryBudget, retry, withRetry } from '@/retry'
+import type { RetryOptions } from '@/retry'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+describe('withRetry', () => {
+  const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 1, jitter: 'NONE' }
+
+  it('should retry failed attempts until one succeeds', async () => {
+    const delays: number[] = []
+    let calls = 0
+    const fn = withRetry(
+      async (value: string) => {
+        calls++
+        if (calls < 3) throw new Error('flaky')
+        return value
+      },
+      { ...options, onRetry: ({ delayMs }) => delays.push(delayMs) },
+    )
+    await expect(fn('ok')).resolves.toBe('ok')
+    expect(calls).toBe(3)
+    expect(delays).toEqual([1, 2])
+  })
+
+  it('should rethrow the last error after maxAttempts', async () => {
+    let calls = 0
+    const fn = withRetry(async () => {
+      calls++
+      throw new Error(`attempt ${calls}`)
+    }, options)
+    await expect(fn()).rejects.toThrow('attempt 3')
+    expect(calls).toBe(3)
+  })
+
+  it('should stop as soon as the circuit is open', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      successThreshold: 1,
+      resetTimeoutMs: 1000,
+    })
+    let calls = 0
+    const fn = withRetry(
+      withCircuitBreaker(breaker, async () => {
+        calls++
+        throw new Error('down')
+      }),
+      options,
+    )
+    await expect(fn()).rejects.toThrow(Errors.CircuitOpenError)
+    expect(calls).toBe(1)
+  })
+
+  it('should not retry errors isRetryable rejects', async () => {
+    let calls = 0
+    const fn = withRetry(
+      async () => {
+        calls++
+        throw new TypeError('bad input')
+      },
+      { ...options, isRetryable: err => !(err instanceof TypeError) },
+    )
+    await expect(fn()).rejects.toThrow(TypeError)
+    expect(calls).toBe(1)
+  })
+
+  it('should stop retrying and reject with the error onRetry throws', async () => {
+    let calls = 0
+    const fn = withRetry(
+      async () => {
+        calls++
+        throw new Error('flaky')
+      },
+      {
+        ...options,
+        onRetry: () => {
+          throw new Error('hook failed')
+        },
+      },
+    )
+    await expect(fn()).rejects.toThrow('hook failed')
+    expect(calls).toBe(1)
+  })
+
+  it('should reject with the abort reason when aborted during a delay', async () => {
+    const clock = new ManualClock()
+    const controller = new AbortController()
+    const pending = retry(
+      async () => {
+        throw new Error('flaky')
+      },
+      { ...options, baseDelayMs: 1000, clock, signal: controller.signal },
+    )
+    await vi.waitUntil(() => clock.pendingTimers > 0)
+    controller.abort(new Error('shutting down'))
+    await expect(pending).rejects.toThrow('shutting down')
+    expect(clock.pendingTimers).toBe(0)
+  })
+
+  it('should stop retrying once the budget is exhausted', async () => {
+    const budget = new RetryBudget({ retryPercent: 50, minRetriesPerSecond: 0 })
+    let calls = 0
+    const fn = withRetry(
+      async () => {
+        calls++
+        throw new Error('down')
+      },
+      { ...options, budget },
+    )
+    // Two calls earn one retry between them
+    await expect(fn()).rejects.toThrow('down')
+    await expect(fn()).rejects.toThrow('down')
+    expect(calls).toBe(3)
+  })
+})
+
+describe('RetryBudget', () => {
+  it('should allow a share of recent traffic plus a per-second allowance', () => {
+    const clock = new ManualClock()
+    const budget = new RetryBudget({
+      retryPercent: 20,
+      minRetriesPerSecond: 1,
+      windowMs: 5000,
+      clock,
+    })
+    for (let i = 0; i < 10; i++) budget.recordRequest()
+    expect(budget.available()).toBe(7)
+    expect(budget.tryRetry()).toBe(true)
+    expect(budget.available()).toBe(6)
+    clock.advance(5000)
+    expect(budget.available()).toBe(5)
+  })
+})
+
+describe('computeRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should grow exponentially up to maxDelayMs', () => {
+    const options: RetryOptions = {
+      maxAttempts: 10,
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      jitter: 'NONE',
+    }
+    expect([1, 2, 3, 4, 5].map(attempt => computeRetryDelay(options, attempt, 0))).toEqual([
+      100, 200, 400, 800, 1000,
+    ])
+  })
+
+  it('should pick a delay up to the exponential one with full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    expect(computeRetryDelay({ maxAttempts: 3, baseDelayMs: 100 }, 3, 0)).toBe(200)
+  })
+
+  it('should pick a delay between the base and three times the previous with decorrelated jitter', () => {
+    const options: RetryOptions = { maxAttempts: 3, baseDelayMs: 100, jitter: 'DECORRELATED' }
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    expect(computeRetryDelay(options, 2, 300)).toBe(900)
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect(computeRetryDelay(options, 2, 300)).toBe(100)
+  })
+})
@@ -0,0 +1,220 @@
+import { computeRetryDelay } from '@/backoff'
+import type { Clock } from '@/clock'
+import { systemClock } from '@/clock'
+import { Errors } from '@/errors'
+
+/**
+ * Enum for randomising retry delays.
+ * - NONE: plain exponential backoff
+ * - FULL: a random delay between 0 and the exponential backoff
+ * - DECORRELATED: a random delay between the base delay and three times the previous delay
+ */
+export type RetryJitter = 'NONE' | 'FULL' | 'DECORRELATED'
+
+/**
+ * Payload of the onRetry hook.
+ */
+export interface RetryEvent {
+  /** The attempt that failed, starting at 1 */
+  readonly attempt: number
+  /** Delay before the next attempt in milliseconds */
+  readonly delayMs: number
+  readonly error: unknown
+}
+
+/**
+ * Configuration options for withRetry and retry.
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one */
+  readonly maxAttempts: number
+  /** Delay before the first retry in milliseconds */
+  readonly baseDelayMs: number
+  /** Upper bound for a single delay in milliseconds (default: 30000) */
+  readonly maxDelayMs?: number
+  /** Factor the delay grows by per attempt (default: 2) */
+  readonly multiplier?: number
+  /** How delays are randomised (default: FULL) */
+  readonly jitter?: RetryJitter
+  /**
+   * Decides whether a failed attempt is retried; all errors are by default.
+   * CircuitOpenError is never retried.
+   */
+  readonly isRetryable?: (error: unknown, attempt: number) => boolean
+  /** Stops retrying, including during a delay, once aborted */
+  readonly signal?: AbortSignal
+  /** Caps retries to a share of the traffic going through the budget */
+  readonly budget?: RetryBudget
+  /** Source of time and timers, defaults to systemClock */
+  readonly clock?: Clock
+  /**
+   * Called before each delay, when an attempt is about to be retried.
+   * Like isRetryable, an exception stops retrying and rejects the call with it.
+   */
+  readonly onRetry?: (event: RetryEvent) => void
+}
+
+/**
+ * Configuration options for a RetryBudget.
+ */
+export interface RetryBudgetOptions {
+  /** Retries allowed as a percentage of the calls in the window, e.g. 20 */
+  readonly retryPercent: number
+  /** Retries allowed per second regardless of traffic, so low traffic can still retry (default: 10) */
+  readonly minRetriesPerSecond?: number
+  /** Length of the window calls and retries are counted over in milliseconds (default: 10000) */
+  readonly windowMs?: number
+  /** Source of time, defaults to systemClock */
+  readonly clock?: Clock
+}
+
+interface BudgetBucket {
+  readonly startedAt: number
+  requests: number
+  retries: number
+}
+
+/**
+ * Caps retries to a percentage of the calls seen over a rolling window, plus a small
+ * per-second allowance, so retries cannot multiply load during an outage.
+ * Share one budget between every withRetry wrapper calling the same upstream.
+ */
+export class RetryBudget {
+  private buckets: BudgetBucket[] = []
+  private readonly clock: Clock
+
+  /**
+   * @param options Retry budget configuration options
+   */
+  constructor(private readonly options: RetryBudgetOptions) {
+    this.clock = options.clock ?? systemClock
+  }
+
+  /**
+   * Records a call that may later be retried.
+   */
+  public recordRequest(): void {
+    this.currentBucket().requests++
+  }
+
+  /**
+   * Withdraws one retry from the budget.
+   * @returns false when the budget is exhausted and the call must not be retried
+   */
+  public tryRetry(): boolean {
+    if (this.available() < 1) return false
+    this.currentBucket().retries++
+    return true
+  }
+
+  /**
+   * Number of retries the budget currently allows.
+   */
+  public available(): number {
+    this.evict()
+    let requests = 0
+    let retries = 0
+    for (const bucket of this.buckets) {
+      requests += bucket.requests
+      retries += bucket.retries
+    }
+    const windowSeconds = this.windowMs() / 1000
+    const allowance = (this.options.minRetriesPerSecond ?? 10) * windowSeconds
+    return Math.floor(allowance + (requests * this.options.retryPercent) / 100) - retries
+  }
+
+  private currentBucket(): BudgetBucket {
+    const now = this.clock.now()
+    const startedAt = now - (now % 1000)
+    this.evict()
+    let bucket = this.buckets[this.buckets.length - 1]
+    if (!bucket || bucket.startedAt !== startedAt) {
+      bucket = { startedAt, requests: 0, retries: 0 }
+      this.buckets.push(bucket)
+    }
+    return bucket
+  }
+
+  private evict(): void {
+    const cutoff = this.clock.now() - this.windowMs()
+    this.buckets = this.buckets.filter(bucket => bucket.startedAt > cutoff)
+  }
+
+  private windowMs(): number {
+    return this.options.windowMs ?? 10_000
+  }
+}
+
+/**
+ * Runs a call, retrying failed attempts with backoff.
+ * Stops retrying on CircuitOpenError, once `maxAttempts` is reached, when `isRetryable`
+ * returns false, when the budget is exhausted, or when the signal aborts; the last
+ * error is rethrown, or the abort reason if the signal aborted during a delay.
+ * @param call The call to run, receiving the attempt number starting at 1
+ * @param options Retry options
+ * @returns The result of the first successful attempt
+ */
+export async function retry<R>(
+  call: (attempt: number) => Promise<R>,
+  options: RetryOptions,
+): Promise<R> {
+  const clock = options.clock ?? systemClock
+  options.budget?.recordRequest()
+  let delayMs = options.baseDelayMs
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted()
+    try {
+      return await call(attempt)
+    } catch (err) {
+      if (!shouldRetry(err, attempt, options)) throw err
+      delayMs = computeRetryDelay(options, attempt, delayMs)
+      options.onRetry?.({ attempt, delayMs, error: err })
+      await sleep(clock, delayMs, options.signal)
+    }
+  }
+}
+
+/**
+ * Wraps an async function so that failed calls are retried with backoff.
+ * Wrap a function already guarded by withCircuitBreaker so that every attempt goes through
+ * the breaker and retries stop as soon as the circuit opens.
+ *
+ * @template Args - Argument types of the wrapped function
+ * @template R - Return type of the wrapped function
+ * @param fn The async function to wrap
+ * @param options Retry options
+ * @returns A function that retries the original function
+ */
+export function withRetry<Args extends unknown[], R>(
+  fn: (...args: Args) => Promise<R>,
+  options: RetryOptions,
+): (...args: Args) => Promise<R> {
+  return (...args: Args): Promise<R> => retry(() => fn(...args), options)
+}
+
+/**
+ * Decides whether a failed attempt is retried, withdrawing from the budget if so.
+ */
+function shouldRetry(error: unknown, attempt: number, options: RetryOptions): boolean {
+  if (error instanceof Errors.CircuitOpenError) return false
+  if (attempt >= options.maxAttempts || options.signal?.aborted) return false
+  if (options.isRetryable && !options.isRetryable(error, attempt)) return false
+  return options.budget?.tryRetry() ?? true
+}
+
+/**
+ * Waits on the clock, rejecting with the abort reason if the signal aborts first.
+ */
+function sleep(clock: Clock, delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clock.clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,127 @@
+import type { SlidingWindowBucket, SlidingWindowOptions } from '@/types'
+
+const DEFAULT_BUCKET_SIZE_MS = 1000
+
+/**
+ * Outcome of a single call as tracked by the sliding window.
+ */
+export interface WindowOutcome {
+  readonly failure: boolean
+  readonly slow: boolean
+}
+
+/**
+ * Aggregated view of the calls currently held in a sliding window.
+ */
+export interface SlidingWindowSummary {
+  readonly calls: number
+  readonly failures: number
+  readonly slowCalls: number
+  readonly failureRate: number
+  readonly slowCallRate: number
+}
+
+/**
+ * Returns a new window with the outcome of one call appended (immutable update).
+ * COUNT_BASED windows keep one bucket per call, TIME_BASED windows aggregate calls per bucket.
+ * @param window The current window contents
+ * @param options Sliding window configuration
+ * @param outcome Whether the call failed and whether it was slow
+ * @param now Current timestamp in milliseconds
+ * @returns The updated window contents
+ */
+export function appendToWindow(
+  window: readonly SlidingWindowBucket[],
+  options: SlidingWindowOptions,
+  outcome: WindowOutcome,
+  now: number,
+): readonly SlidingWindowBucket[] {
+  const failures = outcome.failure ? 1 : 0
+  const slowCalls = outcome.slow ? 1 : 0
+  if (options.type === 'COUNT_BASED') {
+    return [...window, { startedAt: now, calls: 1, failures, slowCalls }].slice(-options.size)
+  }
+  const bucketSizeMs = options.bucketSizeMs ?? DEFAULT_BUCKET_SIZE_MS
+  const startedAt = now - (now % bucketSizeMs)
+  const live = evict(window, options, now)
+  const last = live[live.length - 1]
+  if (last && last.startedAt === startedAt) {
+    return [
+      ...live.slice(0, -1),
+      {
+        startedAt,
+        calls: last.calls + 1,
+        failures: last.failures + failures,
+        slowCalls: last.slowCalls + slowCalls,
+      },
+    ]
+  }
+  return [...live, { startedAt, calls: 1, failures, slowCalls }]
+}
+
+/**
+ * Summarizes the calls in the window that are still within its bounds.
+ * @param window The current window contents
+ * @param options Sliding window configuration
+ * @param now Current timestamp in milliseconds
+ * @returns Call, failure and slow call totals plus their rates in percent
+ */
+export function summarizeWindow(
+  window: readonly SlidingWindowBucket[],
+  options: SlidingWindowOptions,
+  now: number,
+): SlidingWindowSummary {
+  let calls = 0
+  let failures = 0
+  let slowCalls = 0
+  for (const bucket of evict(window, options, now)) {
+    calls += bucket.calls
+    failures += bucket.failures
+    slowCalls += bucket.slowCalls
+  }
+  return {
+    calls,
+    failures,
+    slowCalls,
+    failureRate: calls === 0 ? 0 : (failures / calls) * 100,
+    slowCallRate: calls === 0 ? 0 : (slowCalls / calls) * 100,
+  }
+}
+
+/**
+ * Returns true if the window holds enough calls and either its failure rate
+ * or its slow call rate reaches the configured threshold.
+ */
+export function exceedsThresholds(
+  window: readonly SlidingWindowBucket[],
+  options: SlidingWindowOptions,
+  now: number,
+): boolean {
+  const summary = summarizeWindow(window, options, now)
+  if (summary.calls < options.minimumNumberOfCalls) return false
+  return (
+    summary.failureRate >= options.failureRateThreshold ||
+    (options.slowCallRateThreshold !== undefined &&
+      summary.slowCallRate >= options.slowCallRateThreshold)
+  )
+}
+
+/**
+ * Returns true if a call of the given duration counts as slow.
+ */
+export function isSlowCall(options: SlidingWindowOptions, durationMs?: number): boolean {
+  return (
+    durationMs !== undefined &&
+    options.slowCallThresholdMs !== undefined &&
+    durationMs >= options.slowCallThresholdMs
+  )
+}
+
+function evict(
+  window: readonly SlidingWindowBucket[],
+  options: SlidingWindowOptions,
+  now: number,
+): readonly SlidingWindowBucket[] {
+  if (options.type === 'COUNT_BASED') return window
+  return window.filter(bucket => bucket.startedAt > now - options.size)
+}
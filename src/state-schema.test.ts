@@ -0,0 +1,91 @@
+import { Errors } from '@/errors'
+import { STATE_SCHEMA_VERSION, parseCircuitBreakerState } from '@/state-schema'
+import { describe, expect, it } from 'vitest'
+
+describe('parseCircuitBreakerState', () => {
+  it('should migrate records without a schemaVersion', () => {
+    expect(
+      parseCircuitBreakerState('cb', { status: 'CLOSED', failureCount: 1, successCount: 0 }),
+    ).toEqual({
+      status: 'CLOSED',
+      failureCount: 1,
+      successCount: 0,
+      schemaVersion: STATE_SCHEMA_VERSION,
+    })
+  })
+
+  it('should keep known optional fields and drop unknown ones', () => {
+    const window = [{ startedAt: 0, calls: 2, failures: 1, slowCalls: 0 }]
+    expect(
+      parseCircuitBreakerState('cb', {
+        status: 'OPEN',
+        failureCount: 0,
+        successCount: 0,
+        openedAt: 1000,
+        consecutiveTrips: 2,
+        resetTimeoutMs: 4000,
+        window,
+        version: 'legacy',
+        schemaVersion: 1,
+      }),
+    ).toEqual({
+      status: 'OPEN',
+      failureCount: 0,
+      successCount: 0,
+      openedAt: 1000,
+      consecutiveTrips: 2,
+      resetTimeoutMs: 4000,
+      window,
+      schemaVersion: 1,
+    })
+  })
+
+  it.each([
+    ['a non-object', 'OPEN', 'state must be an object'],
+    ['a bad status', { status: 'BROKEN', failureCount: 0, successCount: 0 }, 'unknown status'],
+    [
+      'a negative count',
+      { status: 'CLOSED', failureCount: -1, successCount: 0 },
+      'failureCount must be a non-negative integer',
+    ],
+    ['a missing count', { status: 'CLOSED', failureCount: 0 }, 'successCount must be'],
+    [
+      'an OPEN state without openedAt',
+      { status: 'OPEN', failureCount: 0, successCount: 0 },
+      'OPEN state needs openedAt',
+    ],
+    [
+      'an inconsistent window',
+      {
+        status: 'CLOSED',
+        failureCount: 0,
+        successCount: 0,
+        window: [{ startedAt: 0, calls: 1, failures: 2, slowCalls: 0 }],
+      },
+      'window must be',
+    ],
+    [
+      'an unknown override',
+      { status: 'CLOSED', failureCount: 0, successCount: 0, override: 'PAUSED' },
+      'unknown override "PAUSED"',
+    ],
+    [
+      'an override that does not match the status',
+      { status: 'CLOSED', failureCount: 0, successCount: 0, override: 'FORCED_OPEN' },
+      'FORCED_OPEN override does not match status CLOSED',
+    ],
+    [
+      'an override expiry without an override',
+      { status: 'CLOSED', failureCount: 0, successCount: 0, overrideExpiresAt: 1000 },
+      'overrideExpiresAt needs an override',
+    ],
+    [
+      'a newer schemaVersion',
+      { status: 'CLOSED', failureCount: 0, successCount: 0, schemaVersion: 99 },
+      'unsupported schemaVersion 99',
+    ],
+  ])('should reject %s', (_label, raw, message) => {
+    expect(() => parseCircuitBreakerState('cb', raw)).toThrow(Errors.InvalidStateError)
+    expect(() => parseCircuitBreakerState('cb', raw)).toThrow(message)
+  })
+})
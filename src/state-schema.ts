@@ -0,0 +1,149 @@
+import { Errors } from '@/errors'
+import type {
+  CircuitBreakerOverride,
+  CircuitBreakerState,
+  CircuitBreakerStatus,
+  SlidingWindowBucket,
+} from '@/types'
+
+/**
+ * Schema version written with every persisted state.
+ */
+export const STATE_SCHEMA_VERSION = 1
+
+type StateRecord = Record<string, unknown>
+
+/**
+ * Migrations keyed by the schema version they upgrade from; each returns the next version.
+ * Records without `schemaVersion` are version 0.
+ */
+export const STATE_MIGRATIONS: Readonly<Record<number, (record: StateRecord) => StateRecord>> = {
+  0: record => ({ ...record, schemaVersion: 1 }),
+}
+
+const STATUSES: readonly CircuitBreakerStatus[] = ['OPEN', 'CLOSED', 'HALF_OPEN']
+const OVERRIDES: readonly CircuitBreakerOverride[] = ['FORCED_OPEN', 'FORCED_CLOSED', 'DISABLED']
+
+/**
+ * Migrates a stored record to the current schema version and validates it.
+ * Unknown fields are dropped.
+ * @param key Storage key of the record, used in error messages
+ * @param raw The stored record
+ * @returns The validated state
+ * @throws InvalidStateError if the record cannot be migrated or is malformed
+ */
+export function parseCircuitBreakerState(key: string, raw: unknown): CircuitBreakerState {
+  if (!isRecord(raw)) throw new Errors.InvalidStateError(key, ['state must be an object'])
+  return validateCircuitBreakerState(key, migrateCircuitBreakerState(key, raw))
+}
+
+/**
+ * Runs the migration chain from the record's schema version up to STATE_SCHEMA_VERSION.
+ * @throws InvalidStateError if the version is unknown or newer than supported
+ */
+export function migrateCircuitBreakerState(key: string, record: StateRecord): StateRecord {
+  let current = record
+  const stored = current.schemaVersion ?? 0
+  if (!isCount(stored) || stored > STATE_SCHEMA_VERSION) {
+    throw new Errors.InvalidStateError(key, [`unsupported schemaVersion ${String(stored)}`])
+  }
+  let version = stored
+  while (version < STATE_SCHEMA_VERSION) {
+    const migrate = STATE_MIGRATIONS[version]
+    if (!migrate) {
+      throw new Errors.InvalidStateError(key, [`no migration from schemaVersion ${version}`])
+    }
+    current = migrate(current)
+    version = current.schemaVersion as number
+  }
+  return current
+}
+
+/**
+ * Checks a record against the current state schema.
+ * @throws InvalidStateError listing every problem found
+ */
+export function validateCircuitBreakerState(key: string, record: StateRecord): CircuitBreakerState {
+  const issues: string[] = []
+  const status = record.status as CircuitBreakerStatus
+  if (!STATUSES.includes(status)) issues.push(`unknown status ${JSON.stringify(record.status)}`)
+  for (const field of ['failureCount', 'successCount']) {
+    if (!isCount(record[field])) issues.push(`${field} must be a non-negative integer`)
+  }
+  for (const field of ['halfOpenCalls', 'consecutiveTrips']) {
+    if (record[field] !== undefined && !isCount(record[field])) {
+      issues.push(`${field} must be a non-negative integer`)
+    }
+  }
+  for (const field of [
+    'openedAt',
+    'halfOpenCallsExpireAt',
+    'resetTimeoutMs',
+    'overrideExpiresAt',
+  ]) {
+    if (record[field] !== undefined && !isTime(record[field])) {
+      issues.push(`${field} must be a non-negative number`)
+    }
+  }
+  if (status === 'OPEN' && record.openedAt === undefined) issues.push('OPEN state needs openedAt')
+  const override = record.override as CircuitBreakerOverride | undefined
+  if (override === undefined) {
+    if (record.overrideExpiresAt !== undefined) issues.push('overrideExpiresAt needs an override')
+  } else if (!OVERRIDES.includes(override)) {
+    issues.push(`unknown override ${JSON.stringify(record.override)}`)
+  } else if (status !== (override === 'FORCED_OPEN' ? 'OPEN' : 'CLOSED')) {
+    issues.push(`${override} override does not match status ${status}`)
+  }
+  if (record.window !== undefined && !isWindow(record.window)) {
+    issues.push('window must be a list of buckets with consistent counts')
+  }
+  if (issues.length > 0) throw new Errors.InvalidStateError(key, issues)
+  return stripUndefined({
+    status,
+    failureCount: record.failureCount as number,
+    successCount: record.successCount as number,
+    openedAt: record.openedAt as number | undefined,
+    halfOpenCalls: record.halfOpenCalls as number | undefined,
+    halfOpenCallsExpireAt: record.halfOpenCallsExpireAt as number | undefined,
+    consecutiveTrips: record.consecutiveTrips as number | undefined,
+    resetTimeoutMs: record.resetTimeoutMs as number | undefined,
+    window: record.window as SlidingWindowBucket[] | undefined,
+    override,
+    overrideExpiresAt: record.overrideExpiresAt as number | undefined,
+    schemaVersion: STATE_SCHEMA_VERSION,
+  })
+}
+
+function isRecord(value: unknown): value is StateRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+function isTime(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isWindow(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      bucket =>
+        isRecord(bucket) &&
+        isTime(bucket.startedAt) &&
+        isCount(bucket.calls) &&
+        isCount(bucket.failures) &&
+        isCount(bucket.slowCalls) &&
+        bucket.failures <= bucket.calls &&
+        bucket.slowCalls <= bucket.calls,
+    )
+  )
+}
+
+function stripUndefined(state: CircuitBreakerState): CircuitBreakerState {
+  return Object.fromEntries(
+    Object.entries(state).filter(([, value]) => value !== undefined),
+  ) as unknown as CircuitBreakerState
+}
@@ -1,3 +1,5 @@
+import type { Clock } from '@/clock'
+
 /**
  * Represents the configuration options for a CircuitBreaker.
  */
@@ -5,6 +7,158 @@ export interface CircuitBreakerOptions {
   readonly failureThreshold: number
   readonly successThreshold: number
   readonly resetTimeoutMs: number
+  /**
+   * Maximum number of in-flight trial calls admitted while HALF_OPEN; further calls are
+   * rejected until a trial settles. Unlimited when omitted.
+   */
+  readonly halfOpenMaxCalls?: number
+  /**
+   * How long a trial slot stays taken when it is never released, e.g. by an instance that
+   * died mid-call. Defaults to the reset timeout of the current OPEN period.
+   */
+  readonly halfOpenSlotTtlMs?: number
+  /**
+   * Grows the reset timeout each time a HALF_OPEN trial fails; recovering to CLOSED resets it.
+   */
+  readonly backoff?: BackoffOptions
+  /**
+   * Opens the circuit based on the failure rate over a sliding window instead of
+   * `failureThreshold` while CLOSED. HALF_OPEN still uses the failure/success thresholds.
+   */
+  readonly slidingWindow?: SlidingWindowOptions
+  /** Source of time and timers, defaults to systemClock */
+  readonly clock?: Clock
+  /**
+   * Moves an OPEN circuit to HALF_OPEN with a clock timer as soon as the reset timeout
+   * elapses, instead of on the next call. The timer does not keep a Node process alive;
+   * `dispose()` cancels it.
+   */
+  readonly autoHalfOpen?: boolean
+}
+
+/**
+ * Configures exponential backoff of the reset timeout after repeated trips.
+ */
+export interface BackoffOptions {
+  /** Factor the reset timeout is multiplied by per consecutive trip */
+  readonly multiplier: number
+  /** Upper bound for the reset timeout in milliseconds */
+  readonly maxResetTimeoutMs: number
+  /** Random spread as a fraction of the timeout (0-1), defaults to 0 */
+  readonly jitter?: number
+}
+
+/**
+ * Configures failure-rate evaluation over a sliding window of recent calls.
+ */
+export interface SlidingWindowOptions {
+  readonly type: SlidingWindowType
+  /** Number of calls (COUNT_BASED) or window length in milliseconds (TIME_BASED) */
+  readonly size: number
+  /** Failure rate in percent (0-100) at or above which the circuit opens */
+  readonly failureRateThreshold: number
+  /** Minimum number of calls in the window before the failure rate is evaluated */
+  readonly minimumNumberOfCalls: number
+  /** Bucket granularity for TIME_BASED windows, defaults to 1000ms */
+  readonly bucketSizeMs?: number
+  /** Calls taking at least this long are counted as slow, even when they succeed */
+  readonly slowCallThresholdMs?: number
+  /** Slow call rate in percent (0-100) at or above which the circuit opens */
+  readonly slowCallRateThreshold?: number
+}
+
+/**
+ * Enum for the possible sliding window types.
+ */
+export type SlidingWindowType = 'COUNT_BASED' | 'TIME_BASED'
+
+/**
+ * Aggregated call outcomes for one slot of a sliding window.
+ * COUNT_BASED windows hold one bucket per call.
+ */
+export interface SlidingWindowBucket {
+  readonly startedAt: number
+  readonly calls: number
+  readonly failures: number
+  readonly slowCalls: number
+}
+
+/**
+ * Describes a completed call when recording its outcome.
+ */
+export interface CallMetadata {
+  /** How long the call took, used for slow call detection */
+  readonly durationMs?: number
+  /** The error the call threw, if any */
+  readonly error?: unknown
+  /** The value the call resolved with, if any */
+  readonly result?: unknown
+}
+
+/**
+ * Enum for how a completed call is accounted for by the breaker.
+ * IGNORED calls count neither as success nor as failure.
+ */
+export type CallClassification = 'SUCCESS' | 'FAILURE' | 'IGNORED'
+
+/**
+ * Enum for why a fallback was invoked instead of returning the call's own result.
+ */
+export type FallbackReason = 'OPEN' | 'TIMEOUT' | 'FAILURE'
+
+/**
+ * Describes the call a fallback substitutes a value for.
+ */
+export interface FallbackContext<Args extends unknown[] = unknown[]> {
+  readonly reason: FallbackReason
+  /** The CircuitOpenError, TimeoutError or upstream error that triggered the fallback */
+  readonly error: unknown
+  /** The arguments of the original call */
+  readonly args: Args
+}
+
+/**
+ * Call options with a timeout, under which the guarded function takes the AbortSignal as
+ * its last parameter. Parameters before it must not have default values.
+ */
+export type TimedCallOptions<O extends { readonly timeoutMs?: number }> = O & {
+  readonly timeoutMs: number
+}
+
+/**
+ * Call options without a timeout, under which the guarded function takes no signal.
+ */
+export type UntimedCallOptions<O extends { readonly timeoutMs?: number }> = O & {
+  readonly timeoutMs?: undefined
+}
+
+/**
+ * Per-call options for withCircuitBreaker and CircuitBreakerGuard.
+ * @template R - Return type of the guarded call
+ * @template Args - Argument types of the guarded call
+ */
+export interface CircuitBreakerCallOptions<R = unknown, Args extends unknown[] = unknown[]> {
+  /**
+   * Aborts the call and records a failure once it runs longer than this.
+   * The wrapped function receives an AbortSignal as its last parameter.
+   */
+  readonly timeoutMs?: number
+  /**
+   * Decides whether a thrown error counts as a failure.
+   * Errors it returns false for count as successes. All errors count as failures by default.
+   */
+  readonly isFailure?: (error: unknown) => boolean
+  /** Error classes that count neither as success nor as failure; still rethrown */
+  readonly ignoreErrors?: ReadonlyArray<abstract new (...args: never[]) => unknown>
+  /** Decides whether a resolved result counts as a failure, for APIs that return errors */
+  readonly isResultFailure?: (result: R) => boolean
+  /**
+   * Substitute value for calls rejected by an open circuit, timed out, or failed.
+   * Ignored errors and results flagged by `isResultFailure` are not substituted.
+   */
+  readonly fallback?: (context: FallbackContext<Args>) => R | Promise<R>
+  /** Clock used to time the call and its timeout, defaults to the breaker's clock */
+  readonly clock?: Clock
 }
 
 /**
@@ -15,6 +169,21 @@ export interface CircuitBreakerState {
   readonly failureCount: number
   readonly successCount: number
   readonly openedAt?: number
+  /** In-flight trial calls while HALF_OPEN, tracked when `halfOpenMaxCalls` is set */
+  readonly halfOpenCalls?: number
+  /** When the in-flight trial calls count as released, renewed by every acquire */
+  readonly halfOpenCallsExpireAt?: number
+  /** HALF_OPEN → OPEN transitions since the circuit was last CLOSED, tracked with `backoff` */
+  readonly consecutiveTrips?: number
+  /** Reset timeout of the current OPEN period, tracked with `backoff` */
+  readonly resetTimeoutMs?: number
+  readonly window?: readonly SlidingWindowBucket[]
+  /** Operator override pinning the state, see forceOpen, forceClose and disable */
+  readonly override?: CircuitBreakerOverride
+  /** When the override expires, in milliseconds since the epoch; unset overrides never expire */
+  readonly overrideExpiresAt?: number
+  /** Schema version of a persisted state, see STATE_SCHEMA_VERSION */
+  readonly schemaVersion?: number
 }
 
 /**
@@ -22,6 +191,36 @@ export interface CircuitBreakerState {
  */
 export type CircuitBreakerStatus = 'OPEN' | 'CLOSED' | 'HALF_OPEN'
 
+/**
+ * Enum for operator overrides of a CircuitBreaker.
+ * - FORCED_OPEN: the circuit is OPEN and rejects every call
+ * - FORCED_CLOSED: the circuit is CLOSED and never trips
+ * - DISABLED: the breaker passes every call through; outcomes are still reported to the hooks
+ */
+export type CircuitBreakerOverride = 'FORCED_OPEN' | 'FORCED_CLOSED' | 'DISABLED'
+
+/**
+ * Options for forceOpen, forceClose and disable.
+ */
+export interface OverrideOptions {
+  /** How long the override lasts before the breaker resets to CLOSED, forever when unset */
+  readonly durationMs?: number
+}
+
+/**
+ * Configuration options for a RemoteCircuitBreaker.
+ */
+export interface RemoteCircuitBreakerOptions extends CircuitBreakerOptions {
+  /** What load() does with a stored state that fails validation, defaults to THROW */
+  readonly invalidStatePolicy?: InvalidStatePolicy
+}
+
+/**
+ * Enum for handling invalid stored state: throw InvalidStateError, reset to a fresh
+ * CLOSED state, or ignore the record as if nothing were stored.
+ */
+export type InvalidStatePolicy = 'THROW' | 'RESET' | 'IGNORE'
+
 /**
  * Async storage port for remote circuit breaker state with versioning for concurrency control.
  */
@@ -31,19 +230,141 @@ export interface VersionedStorageValue {
 }
 
 export interface AsyncCircuitBreakerStorage {
-  put(key: string, value: CircuitBreakerState): Promise<string>
+  /**
+   * Writes the state and returns its new version.
+   * When `expectedVersion` is given, the write must fail with ConcurrencyConflictError
+   * if the stored version no longer matches it. `null` expects no record: the write must
+   * fail with ConcurrencyConflictError if one exists.
+   */
+  put(key: string, value: CircuitBreakerState, expectedVersion?: string | null): Promise<string>
   get(key: string): Promise<VersionedStorageValue | undefined>
   delete(key: string): Promise<void>
 }
 
+/**
+ * Per-call options for withRemoteCircuitBreaker and RemoteCircuitBreakerGuard.
+ * @template R - Return type of the guarded call
+ * @template Args - Argument types of the guarded call
+ */
+export interface RemoteCircuitBreakerCallOptions<R = unknown, Args extends unknown[] = unknown[]>
+  extends CircuitBreakerCallOptions<R, Args> {
+  /** How long state loaded from storage is reused before reloading, defaults to 0 */
+  readonly cacheTtlMs?: number
+}
+
+/**
+ * Options for RemoteCircuitBreaker.saveWithRetry.
+ */
+export interface SaveWithRetryOptions {
+  /** Maximum number of save attempts, defaults to 3 */
+  readonly maxAttempts?: number
+}
+
+/**
+ * Why the state of a circuit breaker changed.
+ * - FAILURE_THRESHOLD: enough failures, or a sliding window rate, opened the circuit
+ * - PROBE_FAILED: a HALF_OPEN trial call failed and reopened the circuit
+ * - RESET_TIMEOUT_ELAPSED: an OPEN circuit moved to HALF_OPEN
+ * - PROBES_SUCCEEDED: enough HALF_OPEN trial calls succeeded to close the circuit
+ * - CALL_RECORDED: a call outcome updated the counters without a transition
+ * - PROBE_SLOT_CHANGED: a HALF_OPEN trial slot was acquired or released
+ * - RETRY_AFTER: an upstream Retry-After extended the OPEN period
+ * - FORCED_OPEN, FORCED_CLOSED, DISABLED: an operator applied the override of the same name
+ * - MANUAL_RESET: an operator reset the breaker
+ * - OVERRIDE_EXPIRED: an override reached its expiry and the breaker reset
+ * - SYNCED: the breaker adopted a transition published by another instance
+ */
+export type StateChangeReason =
+  | 'FAILURE_THRESHOLD'
+  | 'PROBE_FAILED'
+  | 'RESET_TIMEOUT_ELAPSED'
+  | 'PROBES_SUCCEEDED'
+  | 'CALL_RECORDED'
+  | 'PROBE_SLOT_CHANGED'
+  | 'RETRY_AFTER'
+  | CircuitBreakerOverride
+  | 'MANUAL_RESET'
+  | 'OVERRIDE_EXPIRED'
+  | 'SYNCED'
+
+/**
+ * Metadata passed to onStateChange.
+ */
+export interface StateChangeMeta {
+  readonly name?: string
+  readonly reason: StateChangeReason
+  /** When the transition happened, in milliseconds since the epoch */
+  readonly timestamp: number
+}
+
+/**
+ * Payload shared by every lifecycle event.
+ */
+export interface CircuitBreakerEvent {
+  readonly name?: string
+  /** When the event happened, in milliseconds since the epoch */
+  readonly timestamp: number
+  /** State of the breaker once the event was handled */
+  readonly state: CircuitBreakerState
+}
+
+/**
+ * Payload of onSuccess and onFailure.
+ */
+export interface CallOutcomeEvent extends CircuitBreakerEvent {
+  readonly durationMs?: number
+  readonly error?: unknown
+  readonly result?: unknown
+}
+
+/**
+ * Payload of onRejected.
+ */
+export interface CallRejectedEvent extends CircuitBreakerEvent {
+  /** The CircuitOpenError the call was rejected with */
+  readonly error: unknown
+  /** Milliseconds until the circuit lets a trial call through */
+  readonly retryAfterMs: number
+}
+
 /**
  * Observability hooks for circuit breaker events.
+ *
+ * Hooks may be async; they are never awaited, and neither their exceptions nor
+ * their rejections affect the breaker. Both are reported to onHookError instead.
  */
 export interface CircuitBreakerHooks {
   onStateChange?: (
     prev: CircuitBreakerState,
     next: CircuitBreakerState,
-    meta: { name?: string },
+    meta: StateChangeMeta,
   ) => void
   onError?: (error: unknown, meta: { name?: string; operation: string }) => void
+  onCallClassified?: (
+    classification: CallClassification,
+    meta: { name?: string; error?: unknown; result?: unknown; durationMs?: number },
+  ) => void
+  onFallback?: (reason: FallbackReason, meta: { name?: string; error: unknown }) => void
+  /** A call counted as a success */
+  onSuccess?: (event: CallOutcomeEvent) => void
+  /** A call counted as a failure */
+  onFailure?: (event: CallOutcomeEvent) => void
+  /** A call was rejected because the circuit is open or no trial slot is free */
+  onRejected?: (event: CallRejectedEvent) => void
+  /** A trial call was let through while HALF_OPEN */
+  onHalfOpenProbe?: (event: CircuitBreakerEvent) => void
+  /** The circuit closed again after being open, or an operator reset it */
+  onReset?: (event: CircuitBreakerEvent) => void
+  /** A hook threw or its promise rejected */
+  onHookError?: (error: unknown, meta: { name?: string; hook: string }) => void
+  /**
+   * Receives the promise of every async hook, such as a Worker's `ctx.waitUntil`,
+   * so the runtime keeps it alive after the response is sent
+   */
+  waitUntil?: (promise: Promise<unknown>) => void
 }
+
+/**
+ * Names of the hooks that report breaker events.
+ */
+export type CircuitBreakerHookName = Exclude<keyof CircuitBreakerHooks, 'onHookError' | 'waitUntil'>
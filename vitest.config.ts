@@ -10,6 +10,10 @@ export default defineConfig({
       reporter: ['lcov', 'text'],
     },
   },
+  esbuild: {
+    // Lowers standard decorators, which Node does not run natively yet
+    target: 'es2022',
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),